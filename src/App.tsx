@@ -1,75 +1,296 @@
-import React, { useState } from 'react';
-import { Bookmark as BookmarkType } from './types';
+import React, { useState, useMemo, useRef } from 'react';
+import {
+  AppConfig,
+  Bookmark as BookmarkType,
+  Folder as FolderType,
+  FolderDeleteStrategy,
+} from './types';
 import Header from './components/Header';
 import Sidebar from './components/Sidebar';
 import MainContent from './components/MainContent';
 import BookmarkDetails from './components/BookmarkDetails';
 import ConfigModal from './components/ConfigModal';
 import FolderModal from './components/FolderModal';
+import ImportModal from './components/ImportModal';
+import ExportModal from './components/ExportModal';
+import DeleteFolderModal from './components/DeleteFolderModal';
+import TagManagerModal from './components/TagManagerModal';
+import ShortcutHelp from './components/ShortcutHelp';
+import ToastContainer from './components/ToastContainer';
 import { useBookmarks } from './hooks/useBookmarks';
+import { useBookmarkPages } from './hooks/useBookmarkPages';
 import { useFolders } from './hooks/useFolders';
 import { useConfig } from './hooks/useConfig';
 import { useAuth } from './hooks/useAuth';
-import { useSelectedFolder } from './hooks/useSelectedFolder';
-import { useSelectedTag } from './hooks/useSelectedTag';
+import { useBookmarkFilter } from './hooks/useBookmarkFilter';
+import { useSearchIndex } from './hooks/useSearchIndex';
+import { useOfflineSync } from './hooks/useOfflineSync';
+import { useUndoHistory } from './hooks/useUndoHistory';
+import { useUndoableActions } from './hooks/useUndoableActions';
+import { useLinkChecks } from './hooks/useLinkChecks';
+import { useSavedSearches } from './hooks/useSavedSearches';
+import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { compareBookmarks } from './services/bookmarkSort';
+import { needsAttention } from './services/linkHealth';
+import { isSpecialFolder } from './services/specialFolders';
+import { findDuplicateGroups } from './services/duplicates';
+import { TagEdit } from './services/tagEdits';
+import { BookmarkFilter, matchesTagFilter } from './services/bookmarkFilter';
+import { SavedSearch, isShowingSavedSearch } from './services/savedSearches';
+import { BookmarkPageQuery } from './services/apiClient';
+import { createStorageBackend } from './services/storageBackend';
+import { getActiveProfile } from './services/profiles';
+import { undoHistory } from './services/undoHistory';
+import { toasts } from './services/toasts';
+import {
+  parseSearchQuery,
+  matchesSearchQuery,
+  isEmptySearchQuery,
+  getRankableTerms,
+} from './services/searchQuery';
 
 function App() {
   const { config, setConfig } = useConfig();
-  const authState = useAuth(config.apiKey);
+  const [showConfigModal, setShowConfigModal] = useState(false);
+  const activeProfile = getActiveProfile(config);
+  // A rejected key puts the app in read-only mode; ask for a new one
+  const authState = useAuth(activeProfile, () => {
+    toasts.show({
+      type: 'error',
+      message: 'The server rejected the API key. Editing is disabled until a valid key is entered.',
+    });
+    setShowConfigModal(true);
+  });
+  // Rebuilt when the profile changes, which makes the data hooks load from the new server
+  const api = useMemo(
+    () =>
+      createStorageBackend({
+        storage: activeProfile.storage,
+        baseUrl: activeProfile.baseUrl,
+        apiKey: authState.apiKey,
+      }),
+    [activeProfile.storage, activeProfile.baseUrl, authState.apiKey]
+  );
+  const { filter, setFilter, selectFolder, toggleTag, setTagMode, clearTags, followTagEdit } =
+    useBookmarkFilter();
+  const { folder: selectedFolder, tags: selectedTags, tagMode } = filter;
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchGlobally, setSearchGlobally] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [showTagManager, setShowTagManager] = useState(false);
+  const [deletingFolder, setDeletingFolder] = useState<FolderType | null>(null);
+
+  const { query: parsedSearch, errors: searchErrors } = parseSearchQuery(searchQuery);
+  const isGlobalSearch = searchGlobally && !isEmptySearchQuery(parsedSearch);
+  // Broken links and duplicates are worked out on this device from all the bookmarks
+  const isClientSideView =
+    !isGlobalSearch && (selectedFolder === 'broken-links' || selectedFolder === 'duplicates');
+
+  // Servers that page bookmarks themselves are asked for the current view only, and for
+  // everything when it is needed here
   const {
     bookmarks,
     isLoading: bookmarksLoading,
-    error: bookmarksError,
+    isPagingSupported,
+    isComplete: isCollectionComplete,
+    isLoadingAll,
+    itemErrors: bookmarkErrors,
+    dismissItemError: dismissBookmarkError,
+    reload: reloadBookmarks,
+    mergeBookmarks,
     addBookmark,
+    restoreBookmark,
     updateBookmark,
     deleteBookmark,
-    toggleFavorite,
-  } = useBookmarks(authState.isAuthenticated, authState.apiKey);
+    setFavorite,
+    moveBookmark,
+    addTagToBookmark,
+    moveBookmarksToFolder,
+    deleteBookmarksInFolders,
+    mergeDuplicates,
+    bulkUpdate,
+    bulkDelete,
+  } = useBookmarks(
+    api,
+    authState.isAuthenticated,
+    isClientSideView || showExportModal || showTagManager || !!deletingFolder
+  );
   const {
     folders,
     isLoading: foldersLoading,
-    error: foldersError,
+    itemErrors: folderErrors,
+    dismissItemError: dismissFolderError,
+    reload: reloadFolders,
     createFolder,
     updateFolder,
+    moveFolder,
+    deleteFolder,
     getFolderPathName,
     getAllChildFolderIds,
-  } = useFolders(authState.isAuthenticated, authState.apiKey);
-  const { selectedFolder, setSelectedFolder } = useSelectedFolder(folders);
-  const { selectedTag, setSelectedTag } = useSelectedTag();
-
+  } = useFolders(api, authState.isAuthenticated);
+  const undoable = useUndoableActions({
+    bookmarks,
+    folders,
+    addBookmark,
+    restoreBookmark,
+    updateBookmark,
+    deleteBookmark,
+    setFavorite,
+    moveBookmarksToFolder,
+    mergeDuplicates,
+    createFolder,
+    updateFolder,
+    deleteFolder,
+  });
+  useUndoHistory();
+  const linkChecks = useLinkChecks(api, config.linkCheckUrl);
+  const {
+    savedSearches,
+    addSavedSearch,
+    renameSavedSearch,
+    reorderSavedSearch,
+    deleteSavedSearch,
+  } = useSavedSearches(api, config.syncSavedSearches);
   const [selectedBookmark, setSelectedBookmark] = useState<BookmarkType | null>(null);
-  const [searchQuery, setSearchQuery] = useState('');
   const [showRightPanel, setShowRightPanel] = useState(false);
-  const [showConfigModal, setShowConfigModal] = useState(false);
   const [showFolderModal, setShowFolderModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showShortcutHelp, setShowShortcutHelp] = useState(false);
+  // The bookmark that the keyboard shortcuts act on
+  const [cursorId, setCursorId] = useState<string | null>(null);
+  const [focusTitleRequest, setFocusTitleRequest] = useState<number | null>(null);
+  const focusTitleCountRef = useRef(0);
+  const searchInputRef = useRef<HTMLInputElement>(null);
   const [newFolderParentId, setNewFolderParentId] = useState<string | null>(null);
+  const [movingFolder, setMovingFolder] = useState<FolderType | null>(null);
+  const allTags = Array.from(new Set(bookmarks.flatMap(bookmark => bookmark.tags))).sort((a, b) =>
+    a.localeCompare(b)
+  );
+
+  const pagingQuery = useMemo(() => {
+    const query: BookmarkPageQuery = { sort: config.sortOrder };
+    if (searchQuery.trim()) query.search = searchQuery.trim();
+    if (isGlobalSearch) return query;
+
+    if (selectedTags.length > 0) {
+      query.tags = selectedTags.join(',');
+      query.tagMode = tagMode;
+      query.includeSubtags = true;
+    }
+    if (selectedFolder === 'favorites') {
+      query.favorite = true;
+    } else if (selectedFolder && !isSpecialFolder(selectedFolder)) {
+      query.folderId = selectedFolder;
+      if (config.flattenSubfolders) query.includeSubfolders = true;
+    }
+    return query;
+  }, [
+    config.sortOrder,
+    config.flattenSubfolders,
+    searchQuery,
+    isGlobalSearch,
+    selectedTags,
+    tagMode,
+    selectedFolder,
+  ]);
+  const pages = useBookmarkPages(
+    api,
+    pagingQuery,
+    isPagingSupported === true && !isClientSideView,
+    mergeBookmarks
+  );
+  // While the server cannot be reached the cached bookmarks are filtered here instead
+  const isPaged = isPagingSupported === true && !pages.isUnavailable && !isClientSideView;
+  // Servers that cannot page send everything; while it is unknown, the cache is all there is
+  const hasAllBookmarks = isPagingSupported !== true || isCollectionComplete;
 
-  const filteredBookmarks = bookmarks
-    .filter(bookmark => {
-      if (selectedTag) {
-        return bookmark.tags.includes(selectedTag);
-      }
-
-      if (selectedFolder === 'all') return true;
-      if (selectedFolder === 'favorites') return bookmark.favorite;
-
-      if (config.flattenSubfolders) {
-        const folderIds = [selectedFolder, ...getAllChildFolderIds(selectedFolder!)];
-        return folderIds.includes(bookmark.folderId!);
-      } else {
-        return bookmark.folderId === selectedFolder;
-      }
-    })
-    .filter(bookmark => {
-      const matchesSearch =
-        bookmark.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        bookmark.url.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        bookmark.tags.some(tag => tag.toLowerCase().includes(searchQuery.toLowerCase()));
-      return matchesSearch;
+  const offlineState = useOfflineSync(api, authState.isAuthenticated, () => {
+    reloadFolders();
+    reloadBookmarks();
+    if (isPaged) pages.reload();
+  });
+  // Once the index answers, free-text terms also match words with typos in them
+  const rankedSearch = useSearchIndex(bookmarks, getRankableTerms(parsedSearch));
+
+  const duplicateGroups = useMemo(() => findDuplicateGroups(bookmarks), [bookmarks]);
+  const duplicateIds = new Set(
+    duplicateGroups.flatMap(group => group.bookmarks.map(bookmark => bookmark.id))
+  );
+
+  const bookmarksById = new Map(bookmarks.map(bookmark => [bookmark.id, bookmark]));
+  const pagedBookmarks = pages.ids.flatMap(id => bookmarksById.get(id) ?? []);
+
+  // Whether the bookmark is in the folder or view and has the tags the filter asks for
+  const matchesFilter = (bookmark: BookmarkType, { folder, tags, tagMode }: BookmarkFilter) => {
+    if (!matchesTagFilter(bookmark, tags, tagMode)) return false;
+
+    if (folder === 'all') return true;
+    if (folder === 'favorites') return bookmark.favorite;
+    if (folder === 'broken-links') {
+      return needsAttention(bookmark, linkChecks.checks[bookmark.id]);
+    }
+    if (folder === 'duplicates') return duplicateIds.has(bookmark.id);
+
+    if (config.flattenSubfolders) {
+      const folderIds = [folder, ...getAllChildFolderIds(folder!)];
+      return folderIds.includes(bookmark.folderId!);
+    } else {
+      return bookmark.folderId === folder;
+    }
+  };
+
+  const clientFilteredBookmarks = bookmarks
+    .filter(bookmark => isGlobalSearch || matchesFilter(bookmark, filter))
+    .filter(bookmark =>
+      matchesSearchQuery(
+        bookmark,
+        parsedSearch,
+        getFolderPathName,
+        rankedSearch
+          ? (candidate, value) => !!rankedSearch.termMatches[value]?.has(candidate.id)
+          : undefined
+      )
+    )
+    .sort((a, b) => {
+      // Text search results are ordered by relevance, the chosen order breaks ties
+      const relevance = rankedSearch
+        ? (rankedSearch.scores[b.id] || 0) - (rankedSearch.scores[a.id] || 0)
+        : 0;
+      return relevance || compareBookmarks(config.sortOrder)(a, b);
     });
 
+  const filteredBookmarks = isPaged ? pagedBookmarks : clientFilteredBookmarks;
+
+  const folderPath = isGlobalSearch ? 'Search: All Bookmarks' : getFolderPathName(selectedFolder);
+  const isDuplicatesView =
+    selectedFolder === 'duplicates' && selectedTags.length === 0 && !isGlobalSearch;
+
+  // A search of all bookmarks is saved without the folder and tags it ignores
+  const shownFilter: BookmarkFilter = isGlobalSearch
+    ? { folder: 'all', tags: [], tagMode: 'and' }
+    : filter;
+  const activeSavedSearch = savedSearches.find(saved =>
+    isShowingSavedSearch(saved, searchQuery, shownFilter)
+  );
+  // Counted with plain word matching, since the search index only ranks the current search
+  const savedSearchCounts: Record<string, number> = !hasAllBookmarks
+    ? {}
+    : Object.fromEntries(
+        savedSearches.map(saved => {
+          const { query } = parseSearchQuery(saved.search);
+          const count = bookmarks.filter(
+            bookmark =>
+              matchesFilter(bookmark, saved.filter) &&
+              matchesSearchQuery(bookmark, query, getFolderPathName)
+          ).length;
+          return [saved.id, count];
+        })
+      );
+
   const handleBookmarkClick = (bookmark: BookmarkType) => {
     setSelectedBookmark(bookmark);
+    setCursorId(bookmark.id);
+    setFocusTitleRequest(null);
     setShowRightPanel(true);
     if (window.innerWidth < 768) {
       setConfig(prev => ({ ...prev, showSidebar: false }));
@@ -82,9 +303,10 @@ function App() {
       return;
     }
 
-    const newBookmark = await addBookmark(selectedFolder);
+    const newBookmark = await undoable.addBookmark(selectedFolder);
     if (newBookmark) {
       handleBookmarkClick(newBookmark);
+      if (isPaged) pages.reload();
     }
   };
 
@@ -98,36 +320,169 @@ function App() {
     setShowFolderModal(true);
   };
 
+  const handleMoveFolder = (folder: FolderType) => {
+    setMovingFolder(folder);
+    setNewFolderParentId(folder.parentId);
+    setShowFolderModal(true);
+  };
+
+  const handleDeleteFolder = async (folder: FolderType, strategy: FolderDeleteStrategy) => {
+    const subtreeIds = [folder.id, ...getAllChildFolderIds(folder.id)];
+
+    // Deal with the bookmarks first so none are left pointing at a deleted folder
+    const bookmarksHandled =
+      strategy === 'cascade'
+        ? await deleteBookmarksInFolders(subtreeIds)
+        : await moveBookmarksToFolder(
+            [folder.id],
+            strategy === 'moveToParent' ? folder.parentId : null
+          );
+    if (!bookmarksHandled) return;
+
+    // Subfolders are kept unless the whole tree goes, so they can stay open
+    const deleted = await deleteFolder(folder.id, strategy);
+    // The loaded pages may still list the bookmarks as they were
+    if (isPaged) pages.reload();
+    const isSelectionDeleted =
+      selectedFolder === folder.id ||
+      (strategy === 'cascade' && !!selectedFolder && subtreeIds.includes(selectedFolder));
+    if (deleted && isSelectionDeleted) {
+      selectFolder(strategy === 'moveToParent' && folder.parentId ? folder.parentId : 'all');
+    }
+  };
+
+  const handleImport = () => {
+    if (!authState.isAuthenticated) {
+      setShowConfigModal(true);
+      return;
+    }
+
+    setShowImportModal(true);
+  };
+
   const handleFolderSelect = (folderId: string | null) => {
-    setSelectedFolder(folderId);
-    setSelectedTag(null);
+    selectFolder(folderId);
     if (window.innerWidth < 768) {
       setConfig(prev => ({ ...prev, showSidebar: false }));
     }
   };
 
-  const handleTagSelect = (tag: string | null) => {
-    setSelectedTag(tag);
-    setSelectedFolder(null);
+  // Tags narrow down the folder or view that is open
+  const handleTagSelect = (tag: string) => {
+    toggleTag(tag);
     if (window.innerWidth < 768) {
       setConfig(prev => ({ ...prev, showSidebar: false }));
     }
   };
 
+  const handleSaveSearch = () => {
+    const name = searchQuery.trim() || shownFilter.tags.join(', ');
+    if (!name) return;
+    addSavedSearch(name, searchQuery, shownFilter);
+  };
+
+  const handleSavedSearchSelect = (saved: SavedSearch) => {
+    setSearchQuery(saved.search);
+    setSearchGlobally(false);
+    setFilter(saved.filter);
+    if (window.innerWidth < 768) {
+      setConfig(prev => ({ ...prev, showSidebar: false }));
+    }
+  };
+
+  // The selected tags follow a rename or merge, and are dropped when the tag is deleted
+  const handleTagsEdited = (edit: TagEdit) => {
+    followTagEdit(edit);
+    if (isPaged) pages.reload();
+  };
+
+  // The cursor moves through the bookmarks shown, in the order they are shown
+  const cursorBookmarks = isDuplicatesView ? [] : filteredBookmarks;
+  const cursorBookmark = cursorBookmarks.find(bookmark => bookmark.id === cursorId) ?? null;
+
+  const moveCursor = (offset: number) => {
+    if (cursorBookmarks.length === 0) return;
+    const index = cursorBookmark
+      ? cursorBookmarks.indexOf(cursorBookmark) + offset
+      : offset > 0
+        ? 0
+        : cursorBookmarks.length - 1;
+    setCursorId(cursorBookmarks[Math.min(Math.max(index, 0), cursorBookmarks.length - 1)].id);
+  };
+
+  const isModalOpen =
+    showConfigModal ||
+    showFolderModal ||
+    showImportModal ||
+    showExportModal ||
+    showTagManager ||
+    showShortcutHelp ||
+    !!deletingFolder;
+
+  useKeyboardShortcuts(
+    config.shortcuts,
+    {
+      focusSearch: () => searchInputRef.current?.select(),
+      next: () => moveCursor(1),
+      previous: () => moveCursor(-1),
+      open: () => {
+        if (cursorBookmark?.url) window.open(cursorBookmark.url, '_blank', 'noopener,noreferrer');
+      },
+      edit: () => {
+        if (!cursorBookmark) return;
+        handleBookmarkClick(cursorBookmark);
+        focusTitleCountRef.current += 1;
+        setFocusTitleRequest(focusTitleCountRef.current);
+      },
+      favorite: () => {
+        if (cursorBookmark) undoable.toggleFavorite(cursorBookmark.id);
+      },
+      newBookmark: handleAddBookmark,
+      goFavorites: () => handleFolderSelect('favorites'),
+      showHelp: () => setShowShortcutHelp(true),
+    },
+    !isModalOpen
+  );
+
+  // Switching to another profile starts from a clean slate: the selection and the undo
+  // history refer to items that only exist in the previous account
+  const handleSaveConfig = (newConfig: AppConfig) => {
+    const newProfile = getActiveProfile(newConfig);
+    if (
+      newProfile.id !== activeProfile.id ||
+      newProfile.storage !== activeProfile.storage ||
+      newProfile.baseUrl !== activeProfile.baseUrl ||
+      newProfile.apiKey !== activeProfile.apiKey
+    ) {
+      undoHistory.clear();
+      setSelectedBookmark(null);
+      setShowRightPanel(false);
+      selectFolder('all');
+    }
+    setConfig(newConfig);
+  };
+
   return (
     <div className="min-h-screen flex flex-col bg-gray-50 dark:bg-gray-900 text-gray-900 dark:text-gray-100 transition-colors duration-200">
       <Header
         config={config}
         authState={authState}
+        offlineState={offlineState}
         searchQuery={searchQuery}
+        searchInputRef={searchInputRef}
         onSearchChange={setSearchQuery}
+        searchErrors={searchErrors}
+        searchGlobally={searchGlobally}
+        onToggleSearchGlobally={() => setSearchGlobally(prev => !prev)}
         onToggleSidebar={() => setConfig(prev => ({ ...prev, showSidebar: !prev.showSidebar }))}
         onToggleDarkMode={() => setConfig(prev => ({ ...prev, darkMode: !prev.darkMode }))}
         onToggleFlatten={() =>
           setConfig(prev => ({ ...prev, flattenSubfolders: !prev.flattenSubfolders }))
         }
         onAddBookmark={handleAddBookmark}
+        onImport={handleImport}
         onOpenSettings={() => setShowConfigModal(true)}
+        onSwitchProfile={profileId => handleSaveConfig({ ...config, activeProfileId: profileId })}
       />
 
       <div className="flex-1 flex overflow-hidden">
@@ -142,13 +497,37 @@ function App() {
           <Sidebar
             folders={folders}
             selectedFolder={selectedFolder}
-            selectedTag={selectedTag}
+            selectedTags={selectedTags}
             onSelectFolder={handleFolderSelect}
             onSelectTag={handleTagSelect}
             bookmarks={bookmarks}
             onAddFolder={handleAddFolder}
-            onUpdateFolder={updateFolder}
+            onUpdateFolder={undoable.renameFolder}
+            onMoveFolder={handleMoveFolder}
+            onDeleteFolder={setDeletingFolder}
+            onDropBookmarkOnFolder={moveBookmark}
+            onDropBookmarkOnFavorites={bookmarkId => setFavorite(bookmarkId, true)}
+            onDropBookmarkOnTag={addTagToBookmark}
+            onManageTags={() => setShowTagManager(true)}
+            folderErrors={folderErrors}
+            onDismissFolderError={dismissFolderError}
             isAuthenticated={authState.isAuthenticated}
+            showCounts={hasAllBookmarks}
+            areTagsPartial={!hasAllBookmarks}
+            duplicateCount={duplicateIds.size}
+            savedSearches={savedSearches}
+            savedSearchCounts={savedSearchCounts}
+            activeSavedSearchId={activeSavedSearch?.id ?? null}
+            canSaveSearch={!!searchQuery.trim() || shownFilter.tags.length > 0}
+            onSaveSearch={handleSaveSearch}
+            onSelectSavedSearch={handleSavedSearchSelect}
+            onRenameSavedSearch={renameSavedSearch}
+            onReorderSavedSearch={reorderSavedSearch}
+            onDeleteSavedSearch={deleteSavedSearch}
+            brokenLinkCount={
+              bookmarks.filter(bookmark => needsAttention(bookmark, linkChecks.checks[bookmark.id]))
+                .length
+            }
           />
         </div>
 
@@ -163,20 +542,49 @@ function App() {
         <MainContent
           config={config}
           isAuthenticated={authState.isAuthenticated}
-          isLoading={bookmarksLoading || foldersLoading}
-          error={bookmarksError || foldersError}
-          selectedFolder={selectedFolder}
-          selectedTag={selectedTag}
+          authStatus={authState.status}
+          isLoading={
+            (isPaged ? pages.isLoading : bookmarksLoading) ||
+            (isClientSideView && isLoadingAll) ||
+            foldersLoading
+          }
+          filter={filter}
+          onToggleTag={toggleTag}
+          onChangeTagMode={setTagMode}
+          onClearTags={clearTags}
           folders={folders}
           filteredBookmarks={filteredBookmarks}
-          folderPath={selectedTag ? `Tag: ${selectedTag}` : getFolderPathName(selectedFolder)}
+          cursorId={cursorBookmark?.id ?? null}
+          allTags={allTags}
+          areTagsPartial={!hasAllBookmarks}
+          highlights={rankedSearch?.matchedWords ?? null}
+          bookmarkErrors={bookmarkErrors}
+          onDismissBookmarkError={dismissBookmarkError}
+          linkChecks={linkChecks.checks}
+          linkCheckProgress={linkChecks.progress}
+          onCheckLinks={() => linkChecks.checkLinks(bookmarks)}
+          onStopLinkCheck={linkChecks.stopChecking}
+          duplicateGroups={isDuplicatesView ? duplicateGroups : null}
+          onMergeDuplicates={undoable.mergeDuplicates}
+          getFolderPathName={getFolderPathName}
+          folderPath={folderPath}
+          isSortedByRelevance={!isPaged && !!rankedSearch}
+          hasMore={isPaged && pages.hasMore}
+          isLoadingMore={pages.isLoadingMore}
+          onLoadMore={pages.loadMore}
           onToggleView={view => setConfig(prev => ({ ...prev, viewMode: view }))}
+          onChangeSort={sortOrder => setConfig(prev => ({ ...prev, sortOrder }))}
           onBookmarkClick={handleBookmarkClick}
-          onToggleFavorite={toggleFavorite}
+          onToggleFavorite={undoable.toggleFavorite}
+          onMoveBookmark={moveBookmark}
+          onAddTag={addTagToBookmark}
+          onBulkUpdate={bulkUpdate}
+          onBulkDelete={bulkDelete}
           onOpenSettings={() => setShowConfigModal(true)}
+          onExport={() => setShowExportModal(true)}
           onAddFolder={handleAddFolder}
           onSelectFolder={handleFolderSelect}
-          onUpdateFolder={updateFolder}
+          onUpdateFolder={undoable.renameFolder}
         />
 
         {showRightPanel && selectedBookmark && (
@@ -185,10 +593,15 @@ function App() {
               <BookmarkDetails
                 bookmark={selectedBookmark}
                 folders={folders}
+                bookmarks={bookmarks}
+                isPartial={!hasAllBookmarks}
+                onOpenBookmark={handleBookmarkClick}
+                tagNormalization={config.tagNormalization}
+                focusTitleRequest={focusTitleRequest}
                 onClose={() => setShowRightPanel(false)}
-                onUpdate={updateBookmark}
+                onUpdate={undoable.updateBookmark}
                 onDelete={() => {
-                  deleteBookmark(selectedBookmark.id);
+                  undoable.deleteBookmark(selectedBookmark.id);
                   setSelectedBookmark(null);
                   setShowRightPanel(false);
                 }}
@@ -201,10 +614,15 @@ function App() {
                 <BookmarkDetails
                   bookmark={selectedBookmark}
                   folders={folders}
+                  bookmarks={bookmarks}
+                  isPartial={!hasAllBookmarks}
+                  onOpenBookmark={handleBookmarkClick}
+                  tagNormalization={config.tagNormalization}
+                  focusTitleRequest={focusTitleRequest}
                   onClose={() => setShowRightPanel(false)}
-                  onUpdate={updateBookmark}
+                  onUpdate={undoable.updateBookmark}
                   onDelete={() => {
-                    deleteBookmark(selectedBookmark.id);
+                    undoable.deleteBookmark(selectedBookmark.id);
                     setSelectedBookmark(null);
                     setShowRightPanel(false);
                   }}
@@ -218,8 +636,9 @@ function App() {
         {showConfigModal && (
           <ConfigModal
             config={config}
+            authStatus={authState.status}
             onClose={() => setShowConfigModal(false)}
-            onSave={setConfig}
+            onSave={handleSaveConfig}
           />
         )}
 
@@ -227,11 +646,87 @@ function App() {
           <FolderModal
             folders={folders}
             parentId={newFolderParentId}
-            onClose={() => setShowFolderModal(false)}
-            onSave={createFolder}
+            folder={movingFolder}
+            onClose={() => {
+              setShowFolderModal(false);
+              setMovingFolder(null);
+            }}
+            onSave={
+              movingFolder
+                ? (_name, parentId) => moveFolder(movingFolder.id, parentId)
+                : undoable.createFolder
+            }
+          />
+        )}
+
+        {deletingFolder && (
+          <DeleteFolderModal
+            folder={deletingFolder}
+            folders={folders}
+            bookmarks={bookmarks}
+            getFolderPathName={getFolderPathName}
+            getAllChildFolderIds={getAllChildFolderIds}
+            onClose={() => setDeletingFolder(null)}
+            isLoading={isLoadingAll}
+            isPartial={!hasAllBookmarks}
+            onConfirm={strategy => handleDeleteFolder(deletingFolder, strategy)}
+          />
+        )}
+
+        {showImportModal && (
+          <ImportModal
+            folders={folders}
+            api={api}
+            isAuthenticated={authState.isAuthenticated}
+            onClose={() => setShowImportModal(false)}
+            onImportComplete={() => {
+              reloadFolders();
+              reloadBookmarks();
+              if (isPaged) pages.reload();
+            }}
+          />
+        )}
+
+        {showExportModal && (
+          <ExportModal
+            bookmarks={bookmarks}
+            folders={folders}
+            // Once everything is here the view is filtered on this device, rather than
+            // being made of the pages scrolled through so far
+            filteredBookmarks={hasAllBookmarks ? clientFilteredBookmarks : filteredBookmarks}
+            isLoading={isLoadingAll}
+            isPartial={!hasAllBookmarks}
+            selectedFolder={selectedTags.length > 0 ? null : selectedFolder}
+            folderPath={folderPath}
+            getFolderPathName={getFolderPathName}
+            getAllChildFolderIds={getAllChildFolderIds}
+            onClose={() => setShowExportModal(false)}
+          />
+        )}
+
+        {showTagManager && (
+          <TagManagerModal
+            bookmarks={bookmarks}
+            isLoading={isLoadingAll}
+            isPartial={!hasAllBookmarks}
+            onBulkUpdate={bulkUpdate}
+            onTagsEdited={handleTagsEdited}
+            onClose={() => setShowTagManager(false)}
+          />
+        )}
+        {showShortcutHelp && (
+          <ShortcutHelp
+            shortcuts={config.shortcuts}
+            onOpenSettings={() => {
+              setShowShortcutHelp(false);
+              setShowConfigModal(true);
+            }}
+            onClose={() => setShowShortcutHelp(false)}
           />
         )}
       </div>
+
+      <ToastContainer />
     </div>
   );
 }
@@ -1,11 +1,35 @@
 import React from 'react';
 import { Lock } from 'lucide-react';
+import { AuthStatus } from '../types';
 
 interface AuthWarningProps {
+  authStatus: AuthStatus;
   onOpenSettings: () => void;
 }
 
-const AuthWarning: React.FC<AuthWarningProps> = ({ onOpenSettings }) => {
+const AuthWarning: React.FC<AuthWarningProps> = ({ authStatus, onOpenSettings }) => {
+  const { title, message, action } =
+    authStatus === 'invalid'
+      ? {
+          title: 'API Key Rejected',
+          message:
+            'The server did not accept your API key, so you are in read-only mode. To make changes again, please',
+          action: 'enter a valid API key',
+        }
+      : authStatus === 'readOnly'
+        ? {
+            title: 'Read-only API Key',
+            message:
+              'Your API key can only read bookmarks. To create, edit, or delete bookmarks and folders, please',
+            action: 'use a key with write access',
+          }
+        : {
+            title: 'Authentication Required',
+            message:
+              'You are in read-only mode. To create, edit, or delete bookmarks and folders, please',
+            action: 'add your API key or keep your bookmarks in this browser',
+          };
+
   return (
     <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md p-4 mb-4">
       <div className="flex">
@@ -13,17 +37,15 @@ const AuthWarning: React.FC<AuthWarningProps> = ({ onOpenSettings }) => {
           <Lock className="h-5 w-5 text-yellow-400" aria-hidden="true" />
         </div>
         <div className="ml-3">
-          <h3 className="text-sm font-medium text-yellow-800 dark:text-yellow-300">
-            Authentication Required
-          </h3>
+          <h3 className="text-sm font-medium text-yellow-800 dark:text-yellow-300">{title}</h3>
           <div className="mt-2 text-sm text-yellow-700 dark:text-yellow-200">
             <p>
-              You are in read-only mode. To create, edit, or delete bookmarks and folders, please
+              {message}
               <button
                 onClick={onOpenSettings}
                 className="ml-1 text-yellow-800 dark:text-yellow-300 underline font-medium"
               >
-                add your API key
+                {action}
               </button>
               .
             </p>
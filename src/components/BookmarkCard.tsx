@@ -1,20 +1,64 @@
 import React from 'react';
 import { ExternalLink, Star, Lock } from 'lucide-react';
-import { Bookmark } from '../types';
+import { Bookmark, Folder, LinkCheck } from '../types';
+import { startBookmarkDrag } from '../hooks/useBookmarkDrop';
+import { SelectionModifiers } from '../hooks/useBookmarkSelection';
+import BookmarkQuickActions from './BookmarkQuickActions';
+import HighlightedText from './HighlightedText';
+import ItemErrorBadge from './ItemErrorBadge';
+import LinkHealthBadge from './LinkHealthBadge';
 
 interface BookmarkCardProps {
   bookmark: Bookmark;
+  highlightWords?: string[];
+  saveError?: string;
+  onDismissSaveError: () => void;
+  linkCheck?: LinkCheck;
+  folders: Folder[];
+  tags: string[];
+  // Set while only some of the bookmarks are loaded, so tags may be missing some
+  areTagsPartial: boolean;
   onClick: () => void;
   onToggleFavorite: () => void;
+  onMoveToFolder: (folderId: string | null) => void;
+  onAddTag: (tag: string) => void;
+  isSelected: boolean;
+  // Under the keyboard cursor
+  isCursor?: boolean;
+  isSelectionActive: boolean;
+  onSelect: (modifiers: SelectionModifiers) => void;
   isAuthenticated: boolean;
 }
 
 const BookmarkCard: React.FC<BookmarkCardProps> = ({
   bookmark,
+  highlightWords,
+  saveError,
+  onDismissSaveError,
+  linkCheck,
+  folders,
+  tags,
+  areTagsPartial,
   onClick,
   onToggleFavorite,
+  onMoveToFolder,
+  onAddTag,
+  isSelected,
+  isCursor = false,
+  isSelectionActive,
+  onSelect,
   isAuthenticated,
 }) => {
+  // Ctrl/Cmd-click toggles a bookmark in the selection and Shift-click selects a range
+  const handleClick = (e: React.MouseEvent) => {
+    if (e.shiftKey || e.ctrlKey || e.metaKey) {
+      e.preventDefault();
+      onSelect({ shiftKey: e.shiftKey, toggle: e.ctrlKey || e.metaKey });
+      return;
+    }
+    onClick();
+  };
+
   // Extract domain for favicon
   const getFaviconUrl = (url: string) => {
     try {
@@ -26,8 +70,18 @@ const BookmarkCard: React.FC<BookmarkCardProps> = ({
   };
 
   return (
-    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow flex flex-col">
-      <div className="h-32 bg-gray-200 dark:bg-gray-700 relative cursor-pointer" onClick={onClick}>
+    <div
+      className={`group bg-white dark:bg-gray-800 rounded-lg shadow-md hover:shadow-lg transition-shadow flex flex-col ${
+        isSelected ? 'ring-2 ring-blue-500' : ''
+      } ${isCursor ? 'outline-2 outline-offset-2 outline-blue-500' : ''}`}
+      aria-current={isCursor || undefined}
+      draggable={isAuthenticated}
+      onDragStart={e => startBookmarkDrag(e, bookmark.id)}
+    >
+      <div
+        className="h-32 bg-gray-200 dark:bg-gray-700 relative cursor-pointer rounded-t-lg overflow-hidden"
+        onClick={handleClick}
+      >
         {bookmark.thumbnail ? (
           <img
             src={bookmark.thumbnail}
@@ -55,6 +109,21 @@ const BookmarkCard: React.FC<BookmarkCardProps> = ({
             }}
           />
         )}
+        <input
+          type="checkbox"
+          checked={isSelected}
+          readOnly
+          onClick={e => {
+            e.stopPropagation();
+            onSelect({ shiftKey: e.shiftKey, toggle: true });
+          }}
+          className={`absolute top-2 left-2 h-5 w-5 cursor-pointer accent-blue-600 transition-opacity ${
+            isSelected || isSelectionActive
+              ? 'opacity-100'
+              : 'opacity-0 group-hover:opacity-100 focus:opacity-100'
+          }`}
+          aria-label={`Select ${bookmark.title}`}
+        />
         <button
           onClick={e => {
             e.stopPropagation();
@@ -78,23 +147,43 @@ const BookmarkCard: React.FC<BookmarkCardProps> = ({
         </button>
       </div>
 
-      <div className="p-4 flex-1 flex flex-col" onClick={onClick}>
+      <div className="p-4 flex-1 flex flex-col" onClick={handleClick}>
         <div className="flex items-start justify-between">
-          <h3 className="font-medium text-lg truncate">{bookmark.title}</h3>
-          <a
-            href={bookmark.url}
-            target="_blank"
-            rel="noopener noreferrer"
-            onClick={e => e.stopPropagation()}
-            className="text-secondary dark:text-secondary-light hover:text-secondary-dark dark:hover:text-secondary ml-2 shrink-0"
-            aria-label="Open link"
-          >
-            <ExternalLink className="h-4 w-4" />
-          </a>
+          <h3 className="font-medium text-lg truncate">
+            <HighlightedText text={bookmark.title} words={highlightWords} />
+          </h3>
+          <div className="flex items-center ml-2 shrink-0">
+            <LinkHealthBadge bookmark={bookmark} check={linkCheck} className="mr-1" />
+            {saveError && (
+              <ItemErrorBadge message={saveError} onDismiss={onDismissSaveError} className="mr-1" />
+            )}
+            <a
+              href={bookmark.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              onClick={e => e.stopPropagation()}
+              className="text-secondary dark:text-secondary-light hover:text-secondary-dark dark:hover:text-secondary"
+              aria-label="Open link"
+            >
+              <ExternalLink className="h-4 w-4" />
+            </a>
+            {isAuthenticated && (
+              <BookmarkQuickActions
+                bookmark={bookmark}
+                folders={folders}
+                tags={tags}
+                areTagsPartial={areTagsPartial}
+                onMoveToFolder={onMoveToFolder}
+                onAddTag={onAddTag}
+                onToggleFavorite={onToggleFavorite}
+                className="ml-1"
+              />
+            )}
+          </div>
         </div>
 
         <p className="text-gray-600 dark:text-gray-400 text-sm mt-1 line-clamp-2">
-          {bookmark.description}
+          <HighlightedText text={bookmark.description} words={highlightWords} />
         </p>
 
         <div className="mt-3 flex flex-wrap gap-1">
@@ -103,7 +192,7 @@ const BookmarkCard: React.FC<BookmarkCardProps> = ({
               key={tag}
               className="inline-block bg-primary/10 dark:bg-primary/20 text-primary-dark dark:text-primary-light text-xs px-2 py-1 rounded-sm"
             >
-              {tag}
+              <HighlightedText text={tag} words={highlightWords} />
             </span>
           ))}
           {bookmark.tags.length > 3 && (
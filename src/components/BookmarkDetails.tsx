@@ -1,10 +1,21 @@
-import React, { useState, useEffect } from 'react';
-import { X, Save, Trash, ExternalLink, Lock } from 'lucide-react';
-import { Bookmark, Folder } from '../types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { X, Save, Trash, ExternalLink, Lock, Copy } from 'lucide-react';
+import { Bookmark, Folder, TagNormalization } from '../types';
+import { canonicalizeUrl } from '../services/duplicates';
+import { normalizeTags, splitTagInput, suggestTags } from '../services/tagNormalization';
 
 interface BookmarkDetailsProps {
   bookmark: Bookmark;
   folders: Folder[];
+  // All bookmarks, to warn when the URL is already saved
+  bookmarks: Bookmark[];
+  // Set while only some of the bookmarks are loaded, so duplicates and tag suggestions may
+  // be missing
+  isPartial: boolean;
+  onOpenBookmark: (bookmark: Bookmark) => void;
+  tagNormalization: TagNormalization;
+  // Changes each time the title should get the focus, as the edit shortcut asks for
+  focusTitleRequest: number | null;
   onClose: () => void;
   onUpdate: (bookmark: Bookmark) => void;
   onDelete: () => void;
@@ -14,6 +25,11 @@ interface BookmarkDetailsProps {
 const BookmarkDetails: React.FC<BookmarkDetailsProps> = ({
   bookmark,
   folders,
+  bookmarks,
+  isPartial,
+  onOpenBookmark,
+  tagNormalization,
+  focusTitleRequest,
   onClose,
   onUpdate,
   onDelete,
@@ -21,11 +37,38 @@ const BookmarkDetails: React.FC<BookmarkDetailsProps> = ({
 }) => {
   const [editedBookmark, setEditedBookmark] = useState<Bookmark>({ ...bookmark });
   const [tagInput, setTagInput] = useState('');
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  // The highlighted suggestion, or -1 to add what was typed
+  const [activeSuggestion, setActiveSuggestion] = useState(-1);
+  const titleRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     setEditedBookmark({ ...bookmark });
   }, [bookmark]);
 
+  useEffect(() => {
+    if (focusTitleRequest !== null) titleRef.current?.focus();
+  }, [focusTitleRequest]);
+
+  const duplicates = useMemo(() => {
+    if (!editedBookmark.url.trim()) return [];
+    const canonicalUrl = canonicalizeUrl(editedBookmark.url);
+    return bookmarks.filter(
+      other => other.id !== editedBookmark.id && canonicalizeUrl(other.url) === canonicalUrl
+    );
+  }, [bookmarks, editedBookmark.id, editedBookmark.url]);
+
+  // How many bookmarks use each tag, to offer the most used ones first
+  const tagUsage = useMemo(() => {
+    const usage = new Map<string, number>();
+    for (const other of bookmarks) {
+      for (const tag of other.tags) usage.set(tag, (usage.get(tag) || 0) + 1);
+    }
+    return usage;
+  }, [bookmarks]);
+
+  const suggestions = showSuggestions ? suggestTags(tagInput, tagUsage, editedBookmark.tags) : [];
+
   const handleChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
   ) => {
@@ -36,14 +79,37 @@ const BookmarkDetails: React.FC<BookmarkDetailsProps> = ({
     });
   };
 
+  const addTags = (tags: string[]) => {
+    const added = normalizeTags(tags, tagNormalization);
+    if (added.length === 0) return;
+    setEditedBookmark(prev => ({
+      ...prev,
+      tags: Array.from(new Set([...prev.tags, ...added])),
+    }));
+    setActiveSuggestion(-1);
+  };
+
   const handleTagAdd = () => {
-    if (tagInput.trim() && !editedBookmark.tags.includes(tagInput.trim())) {
-      setEditedBookmark({
-        ...editedBookmark,
-        tags: [...editedBookmark.tags, tagInput.trim()],
-      });
-      setTagInput('');
-    }
+    addTags(splitTagInput(tagInput));
+    setTagInput('');
+  };
+
+  // A comma completes the tags typed before it
+  const handleTagInputChange = (value: string) => {
+    const parts = value.split(',');
+    if (parts.length > 1) addTags(parts.slice(0, -1));
+    setTagInput(parts[parts.length - 1]);
+    setShowSuggestions(true);
+    setActiveSuggestion(-1);
+  };
+
+  // Pasting a list of tags adds them all at once
+  const handleTagPaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const text = e.clipboardData.getData('text');
+    if (!/[,\n]/.test(text)) return;
+    e.preventDefault();
+    addTags(splitTagInput(tagInput + text));
+    setTagInput('');
   };
 
   const handleTagRemove = (tagToRemove: string) => {
@@ -54,14 +120,28 @@ const BookmarkDetails: React.FC<BookmarkDetailsProps> = ({
   };
 
   const handleTagKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter') {
+    if (e.key === 'ArrowDown' && suggestions.length > 0) {
       e.preventDefault();
-      handleTagAdd();
+      setActiveSuggestion(index => (index + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setActiveSuggestion(index => (index <= 0 ? suggestions.length : index) - 1);
+    } else if (e.key === 'Escape' && suggestions.length > 0) {
+      e.preventDefault();
+      setShowSuggestions(false);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (suggestions[activeSuggestion]) {
+        addTags([suggestions[activeSuggestion]]);
+        setTagInput('');
+      } else {
+        handleTagAdd();
+      }
     }
   };
 
   const handleSave = () => {
-    onUpdate(editedBookmark);
+    onUpdate({ ...editedBookmark, tags: normalizeTags(editedBookmark.tags, tagNormalization) });
   };
 
   // Organize folders into a hierarchical structure for the dropdown
@@ -115,6 +195,7 @@ const BookmarkDetails: React.FC<BookmarkDetailsProps> = ({
               Title
             </label>
             <input
+              ref={titleRef}
               type="text"
               id="title"
               name="title"
@@ -151,6 +232,31 @@ const BookmarkDetails: React.FC<BookmarkDetailsProps> = ({
                 <ExternalLink className="h-4 w-4 text-blue-600 dark:text-blue-400" />
               </a>
             </div>
+            {duplicates.length > 0 && (
+              <div className="mt-2 p-2 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md text-xs text-yellow-800 dark:text-yellow-300">
+                <div className="flex items-center font-medium">
+                  <Copy className="h-3.5 w-3.5 mr-1 shrink-0" />
+                  This page is already saved as
+                </div>
+                <ul className="mt-1 space-y-0.5">
+                  {duplicates.map(other => (
+                    <li key={other.id}>
+                      <button
+                        onClick={() => onOpenBookmark(other)}
+                        className="underline hover:no-underline text-left"
+                      >
+                        {other.title || other.url}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {isPartial && editedBookmark.url.trim() && (
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Only the bookmarks loaded so far are checked for this link.
+              </p>
+            )}
           </div>
 
           <div>
@@ -229,15 +335,24 @@ const BookmarkDetails: React.FC<BookmarkDetailsProps> = ({
             >
               Tags
             </label>
-            <div className="flex">
+            <div className="flex relative">
               <input
                 type="text"
                 id="tags"
                 value={tagInput}
-                onChange={e => setTagInput(e.target.value)}
+                onChange={e => handleTagInputChange(e.target.value)}
+                onPaste={handleTagPaste}
                 onKeyDown={handleTagKeyDown}
-                placeholder="Add a tag"
-                className={`flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-l-md shadow-xs focus:outline-hidden focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 ${!isAuthenticated ? 'opacity-75 cursor-not-allowed' : ''}`}
+                onBlur={() => setShowSuggestions(false)}
+                placeholder="Add tags, separated by commas"
+                role="combobox"
+                aria-expanded={suggestions.length > 0}
+                aria-controls="tagSuggestions"
+                aria-autocomplete="list"
+                aria-activedescendant={
+                  activeSuggestion >= 0 ? `tagSuggestion-${activeSuggestion}` : undefined
+                }
+                className={`flex-1 min-w-0 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-l-md shadow-xs focus:outline-hidden focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 ${!isAuthenticated ? 'opacity-75 cursor-not-allowed' : ''}`}
                 disabled={!isAuthenticated}
               />
               <button
@@ -252,6 +367,45 @@ const BookmarkDetails: React.FC<BookmarkDetailsProps> = ({
               >
                 Add
               </button>
+              {suggestions.length > 0 && (
+                <ul
+                  id="tagSuggestions"
+                  role="listbox"
+                  className="absolute left-0 right-0 top-full mt-1 z-10 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-md shadow-lg py-1 text-sm"
+                >
+                  {suggestions.map((suggestion, index) => (
+                    <li
+                      key={suggestion}
+                      id={`tagSuggestion-${index}`}
+                      role="option"
+                      aria-selected={index === activeSuggestion}
+                      // Keep the focus in the input so the list stays open
+                      onMouseDown={e => e.preventDefault()}
+                      onClick={() => {
+                        addTags([suggestion]);
+                        setTagInput('');
+                      }}
+                      onMouseEnter={() => setActiveSuggestion(index)}
+                      className={`flex items-center justify-between px-3 py-1.5 cursor-pointer ${
+                        index === activeSuggestion ? 'bg-blue-100 dark:bg-blue-900' : ''
+                      }`}
+                    >
+                      <span className="truncate">{suggestion}</span>
+                      <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                        {tagUsage.get(suggestion)}
+                      </span>
+                    </li>
+                  ))}
+                  {isPartial && (
+                    <li
+                      role="presentation"
+                      className="px-3 py-1 text-xs text-gray-500 dark:text-gray-400"
+                    >
+                      From the bookmarks loaded so far
+                    </li>
+                  )}
+                </ul>
+              )}
             </div>
             <div className="mt-2 flex flex-wrap gap-2">
               {editedBookmark.tags.map(tag => (
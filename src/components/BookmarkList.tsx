@@ -1,20 +1,144 @@
 import React from 'react';
-import { ExternalLink, Star, Lock } from 'lucide-react';
-import { Bookmark } from '../types';
+import { ExternalLink, Star, Lock, ArrowUp, ArrowDown } from 'lucide-react';
+import { Bookmark, Folder, LinkCheck, SortOrder } from '../types';
+import { startBookmarkDrag } from '../hooks/useBookmarkDrop';
+import { SelectionModifiers } from '../hooks/useBookmarkSelection';
+import { useVirtualRows } from '../hooks/useVirtualRows';
+import BookmarkQuickActions from './BookmarkQuickActions';
+import HighlightedText from './HighlightedText';
+import ItemErrorBadge from './ItemErrorBadge';
+import LinkHealthBadge from './LinkHealthBadge';
 
 interface BookmarkListProps {
+  // The scrolling element the list sits in, used to render only the visible rows
+  scrollElement: HTMLElement | null;
   bookmarks: Bookmark[];
+  highlights: Record<string, string[]> | null;
+  saveErrors: Record<string, string>;
+  onDismissSaveError: (id: string) => void;
+  linkChecks: Record<string, LinkCheck>;
+  folders: Folder[];
+  tags: string[];
+  // Set while only some of the bookmarks are loaded, so tags may be missing some
+  areTagsPartial: boolean;
   onBookmarkClick: (bookmark: Bookmark) => void;
   onToggleFavorite: (id: string) => void;
+  onMoveToFolder: (id: string, folderId: string | null) => void;
+  onAddTag: (id: string, tag: string) => void;
+  // null while the order is fixed by something else, e.g. search relevance
+  sortOrder: SortOrder | null;
+  onChangeSort: (sortOrder: SortOrder) => void;
+  isSelected: (id: string) => boolean;
+  // The bookmark under the keyboard cursor
+  cursorId: string | null;
+  onSelect: (id: string, modifiers: SelectionModifiers) => void;
+  allSelected: boolean;
+  onToggleSelectAll: () => void;
   isAuthenticated: boolean;
 }
 
 const BookmarkList: React.FC<BookmarkListProps> = ({
+  scrollElement,
   bookmarks,
+  highlights,
+  saveErrors,
+  onDismissSaveError,
+  linkChecks,
+  folders,
+  tags,
+  areTagsPartial,
   onBookmarkClick,
   onToggleFavorite,
+  onMoveToFolder,
+  onAddTag,
+  sortOrder,
+  onChangeSort,
+  isSelected,
+  cursorId,
+  onSelect,
+  allSelected,
+  onToggleSelectAll,
   isAuthenticated,
 }) => {
+  const rowKeys = bookmarks.map(bookmark => bookmark.id);
+  // Only one of the two layouts is visible at a time; the hidden one never gets measured
+  const {
+    items: tableItems,
+    measureRow: measureTableRow,
+    setListElement: setTableBody,
+    containerProps: tableBodyProps,
+  } = useVirtualRows({ scrollElement, rowKeys, estimatedRowHeight: 73, activeKey: cursorId });
+  const {
+    items: cardItems,
+    measureRow: measureCard,
+    setListElement: setCardList,
+    containerProps: cardListProps,
+  } = useVirtualRows({ scrollElement, rowKeys, estimatedRowHeight: 97, activeKey: cursorId });
+  const bookmarksById = new Map(bookmarks.map(bookmark => [bookmark.id, bookmark]));
+  const cursorClass = 'outline-2 -outline-offset-2 outline-blue-500';
+
+  // Ctrl/Cmd-click toggles a bookmark in the selection and Shift-click selects a range
+  const handleRowClick = (e: React.MouseEvent, bookmark: Bookmark) => {
+    if (e.shiftKey || e.ctrlKey || e.metaKey) {
+      e.preventDefault();
+      onSelect(bookmark.id, { shiftKey: e.shiftKey, toggle: e.ctrlKey || e.metaKey });
+      return;
+    }
+    onBookmarkClick(bookmark);
+  };
+
+  const renderCheckbox = (bookmark: Bookmark) => (
+    <input
+      type="checkbox"
+      checked={isSelected(bookmark.id)}
+      readOnly
+      onClick={e => {
+        e.stopPropagation();
+        onSelect(bookmark.id, { shiftKey: e.shiftKey, toggle: true });
+      }}
+      className="h-4 w-4 cursor-pointer accent-blue-600"
+      aria-label={`Select ${bookmark.title}`}
+    />
+  );
+
+  const headerClass =
+    'px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider';
+
+  // `orders` lists the sort orders a header cycles through when clicked
+  const renderSortableHeader = (label: string, orders: SortOrder[], className = '') => {
+    const activeIndex = sortOrder ? orders.indexOf(sortOrder) : -1;
+    const isActive = activeIndex !== -1;
+    const next = orders[(activeIndex + 1) % orders.length];
+    const descending = sortOrder === 'dateNewest';
+
+    return (
+      <th
+        scope="col"
+        className={`${headerClass} ${className}`}
+        aria-sort={isActive ? (descending ? 'descending' : 'ascending') : undefined}
+      >
+        {sortOrder ? (
+          <button
+            onClick={() => onChangeSort(next)}
+            className={`inline-flex items-center uppercase tracking-wider cursor-pointer hover:text-gray-700 dark:hover:text-gray-200 ${
+              isActive ? 'text-gray-900 dark:text-white' : ''
+            }`}
+          >
+            {label}
+            {isActive &&
+              (descending ? (
+                <ArrowDown className="h-3 w-3 ml-1" />
+              ) : (
+                <ArrowUp className="h-3 w-3 ml-1" />
+              ))}
+          </button>
+        ) : (
+          label
+        )}
+      </th>
+    );
+  };
+
   // Extract domain for favicon
   const getFaviconUrl = (url: string) => {
     try {
@@ -26,201 +150,163 @@ const BookmarkList: React.FC<BookmarkListProps> = ({
   };
 
   return (
-    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm overflow-hidden">
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm">
       {/* Large screens - Table view */}
       <div className="hidden sm:block">
         <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
           <thead className="bg-gray-50 dark:bg-gray-900">
             <tr>
-              <th
-                scope="col"
-                className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider"
-              >
-                Title
-              </th>
-              <th
-                scope="col"
-                className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider hidden md:table-cell"
-              >
-                URL
+              <th scope="col" className="pl-4 sm:pl-6 py-3 w-4">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={onToggleSelectAll}
+                  className="h-4 w-4 cursor-pointer accent-blue-600"
+                  aria-label="Select all bookmarks"
+                />
               </th>
-              <th
-                scope="col"
-                className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider hidden lg:table-cell"
-              >
+              {renderSortableHeader('Title', ['title'])}
+              {renderSortableHeader('URL', ['domain'], 'hidden md:table-cell')}
+              <th scope="col" className={`${headerClass} hidden lg:table-cell`}>
                 Tags
               </th>
-              <th
-                scope="col"
-                className="px-4 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider hidden sm:table-cell"
-              >
-                Date Added
-              </th>
-              <th scope="col" className="relative px-4 sm:px-6 py-3">
+              {renderSortableHeader(
+                'Date Added',
+                ['dateNewest', 'dateOldest'],
+                'hidden sm:table-cell'
+              )}
+              <th scope="col" className="relative px-4 sm:px-6 py-3 text-right">
                 <span className="sr-only">Actions</span>
+                {sortOrder && (
+                  <button
+                    onClick={() => onChangeSort('favorites')}
+                    className={`p-1 rounded-sm cursor-pointer hover:bg-gray-200 dark:hover:bg-gray-700 ${
+                      sortOrder === 'favorites' ? 'text-yellow-500' : 'text-gray-400'
+                    }`}
+                    aria-label="Sort favorites first"
+                    aria-pressed={sortOrder === 'favorites'}
+                    title="Favorites first"
+                  >
+                    <Star
+                      className={`h-4 w-4 ${sortOrder === 'favorites' ? 'fill-yellow-400' : ''}`}
+                    />
+                  </button>
+                )}
               </th>
             </tr>
           </thead>
-          <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
-            {bookmarks.map(bookmark => (
-              <tr
-                key={bookmark.id}
-                className="hover:bg-gray-50 dark:hover:bg-gray-750 cursor-pointer"
-                onClick={() => onBookmarkClick(bookmark)}
-              >
-                <td className="px-4 sm:px-6 py-4">
-                  <div className="flex items-center">
-                    <div className="h-10 w-10 shrink-0 mr-3">
-                      {bookmark.thumbnail ? (
-                        <img
-                          className="h-10 w-10 rounded-sm object-cover"
-                          src={bookmark.thumbnail}
-                          alt=""
-                          onError={e => {
-                            const favicon = getFaviconUrl(bookmark.url);
-                            if (favicon) {
-                              (e.target as HTMLImageElement).src = favicon;
+          <tbody
+            ref={setTableBody}
+            {...tableBodyProps}
+            className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700"
+          >
+            {tableItems.map(item => {
+              if (item.type === 'spacer') {
+                return (
+                  <tr key={item.key} aria-hidden="true">
+                    <td colSpan={6} className="p-0" style={{ height: item.height }} />
+                  </tr>
+                );
+              }
+              const bookmark = bookmarksById.get(item.key)!;
+              return (
+                <tr
+                  key={bookmark.id}
+                  ref={measureTableRow}
+                  data-virtual-key={bookmark.id}
+                  aria-current={bookmark.id === cursorId || undefined}
+                  className={`cursor-pointer ${
+                    isSelected(bookmark.id)
+                      ? 'bg-blue-50 dark:bg-blue-900/30'
+                      : 'hover:bg-gray-50 dark:hover:bg-gray-750'
+                  } ${bookmark.id === cursorId ? cursorClass : ''}`}
+                  onClick={e => handleRowClick(e, bookmark)}
+                  draggable={isAuthenticated}
+                  onDragStart={e => startBookmarkDrag(e, bookmark.id)}
+                >
+                  <td className="pl-4 sm:pl-6 py-4 w-4">{renderCheckbox(bookmark)}</td>
+                  <td className="px-4 sm:px-6 py-4">
+                    <div className="flex items-center">
+                      <div className="h-10 w-10 shrink-0 mr-3">
+                        {bookmark.thumbnail ? (
+                          <img
+                            className="h-10 w-10 rounded-sm object-cover"
+                            src={bookmark.thumbnail}
+                            alt=""
+                            onError={e => {
+                              const favicon = getFaviconUrl(bookmark.url);
+                              if (favicon) {
+                                (e.target as HTMLImageElement).src = favicon;
+                                (e.target as HTMLImageElement).className =
+                                  'h-10 w-10 rounded-sm object-contain p-1 bg-white dark:bg-gray-700';
+                              }
+                            }}
+                          />
+                        ) : (
+                          <img
+                            src={getFaviconUrl(bookmark.url) || ''}
+                            alt=""
+                            className="h-10 w-10 rounded-sm object-contain p-1 bg-white dark:bg-gray-700"
+                            onError={e => {
+                              (e.target as HTMLImageElement).src =
+                                'data:image/svg+xml,%3Csvg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"%3E%3Cpath d="m19 21-7-5-7 5V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2v16z"%3E%3C/path%3E%3C/svg%3E';
                               (e.target as HTMLImageElement).className =
-                                'h-10 w-10 rounded-sm object-contain p-1 bg-white dark:bg-gray-700';
-                            }
-                          }}
-                        />
-                      ) : (
-                        <img
-                          src={getFaviconUrl(bookmark.url) || ''}
-                          alt=""
-                          className="h-10 w-10 rounded-sm object-contain p-1 bg-white dark:bg-gray-700"
-                          onError={e => {
-                            (e.target as HTMLImageElement).src =
-                              'data:image/svg+xml,%3Csvg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"%3E%3Cpath d="m19 21-7-5-7 5V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2v16z"%3E%3C/path%3E%3C/svg%3E';
-                            (e.target as HTMLImageElement).className =
-                              'h-10 w-10 rounded-sm object-contain p-2 opacity-20';
-                          }}
-                        />
-                      )}
-                    </div>
-                    <div className="min-w-0">
-                      <div className="text-sm font-medium text-gray-900 dark:text-white truncate">
-                        {bookmark.title}
+                                'h-10 w-10 rounded-sm object-contain p-2 opacity-20';
+                            }}
+                          />
+                        )}
+                      </div>
+                      <div className="min-w-0">
+                        <div className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                          <HighlightedText
+                            text={bookmark.title}
+                            words={highlights?.[bookmark.id]}
+                          />
+                        </div>
                       </div>
                     </div>
-                  </div>
-                </td>
-                <td className="px-4 sm:px-6 py-4 hidden md:table-cell">
-                  <div className="text-sm text-gray-500 dark:text-gray-400 truncate max-w-xs">
-                    {bookmark.url.replace(/^https?:\/\//, '')}
-                  </div>
-                </td>
-                <td className="px-4 sm:px-6 py-4 hidden lg:table-cell">
-                  <div className="flex flex-wrap gap-1">
-                    {bookmark.tags.slice(0, 2).map(tag => (
-                      <span
-                        key={tag}
-                        className="inline-block bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-300 text-xs px-2 py-1 rounded-sm"
-                        onClick={e => e.stopPropagation()}
-                      >
-                        {tag}
-                      </span>
-                    ))}
-                    {bookmark.tags.length > 2 && (
-                      <span
-                        className="inline-block bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-300 text-xs px-2 py-1 rounded-sm"
-                        onClick={e => e.stopPropagation()}
-                      >
-                        +{bookmark.tags.length - 2}
-                      </span>
-                    )}
-                  </div>
-                </td>
-                <td className="px-4 sm:px-6 py-4 text-sm text-gray-500 dark:text-gray-400 hidden sm:table-cell">
-                  {new Date(bookmark.dateAdded).toLocaleDateString()}
-                </td>
-                <td className="px-4 sm:px-6 py-4 text-right">
-                  <div className="flex items-center justify-end space-x-3">
-                    <button
-                      onClick={e => {
-                        e.stopPropagation();
-                        onToggleFavorite(bookmark.id);
-                      }}
-                      className={`${
-                        isAuthenticated
-                          ? 'text-gray-400 hover:text-yellow-500'
-                          : 'text-gray-300 dark:text-gray-600 cursor-not-allowed'
-                      }`}
-                      aria-label={bookmark.favorite ? 'Remove from favorites' : 'Add to favorites'}
-                      disabled={!isAuthenticated}
-                    >
-                      {isAuthenticated ? (
-                        <Star
-                          className={`h-5 w-5 ${bookmark.favorite ? 'text-yellow-400 fill-yellow-400' : ''}`}
+                  </td>
+                  <td className="px-4 sm:px-6 py-4 hidden md:table-cell">
+                    <div className="text-sm text-gray-500 dark:text-gray-400 truncate max-w-xs">
+                      <HighlightedText
+                        text={bookmark.url.replace(/^https?:\/\//, '')}
+                        words={highlights?.[bookmark.id]}
+                      />
+                    </div>
+                  </td>
+                  <td className="px-4 sm:px-6 py-4 hidden lg:table-cell">
+                    <div className="flex flex-wrap gap-1">
+                      {bookmark.tags.slice(0, 2).map(tag => (
+                        <span
+                          key={tag}
+                          className="inline-block bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-300 text-xs px-2 py-1 rounded-sm"
+                          onClick={e => e.stopPropagation()}
+                        >
+                          <HighlightedText text={tag} words={highlights?.[bookmark.id]} />
+                        </span>
+                      ))}
+                      {bookmark.tags.length > 2 && (
+                        <span
+                          className="inline-block bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-300 text-xs px-2 py-1 rounded-sm"
+                          onClick={e => e.stopPropagation()}
+                        >
+                          +{bookmark.tags.length - 2}
+                        </span>
+                      )}
+                    </div>
+                  </td>
+                  <td className="px-4 sm:px-6 py-4 text-sm text-gray-500 dark:text-gray-400 hidden sm:table-cell">
+                    {new Date(bookmark.dateAdded).toLocaleDateString()}
+                  </td>
+                  <td className="px-4 sm:px-6 py-4 text-right">
+                    <div className="flex items-center justify-end space-x-3">
+                      <LinkHealthBadge bookmark={bookmark} check={linkChecks[bookmark.id]} />
+                      {saveErrors[bookmark.id] && (
+                        <ItemErrorBadge
+                          message={saveErrors[bookmark.id]}
+                          onDismiss={() => onDismissSaveError(bookmark.id)}
                         />
-                      ) : (
-                        <Lock className="h-5 w-5" />
                       )}
-                    </button>
-                    <a
-                      href={bookmark.url}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      onClick={e => e.stopPropagation()}
-                      className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
-                      aria-label="Open link"
-                    >
-                      <ExternalLink className="h-5 w-5" />
-                    </a>
-                  </div>
-                </td>
-              </tr>
-            ))}
-          </tbody>
-        </table>
-      </div>
-
-      {/* Mobile view - Card layout */}
-      <div className="sm:hidden">
-        <div className="divide-y divide-gray-200 dark:divide-gray-700">
-          {bookmarks.map(bookmark => (
-            <div
-              key={bookmark.id}
-              className="p-4 hover:bg-gray-50 dark:hover:bg-gray-750 cursor-pointer"
-              onClick={() => onBookmarkClick(bookmark)}
-            >
-              <div className="flex items-start space-x-4">
-                <div className="h-12 w-12 shrink-0">
-                  {bookmark.thumbnail ? (
-                    <img
-                      className="h-12 w-12 rounded-sm object-cover"
-                      src={bookmark.thumbnail}
-                      alt=""
-                      onError={e => {
-                        const favicon = getFaviconUrl(bookmark.url);
-                        if (favicon) {
-                          (e.target as HTMLImageElement).src = favicon;
-                          (e.target as HTMLImageElement).className =
-                            'h-12 w-12 rounded-sm object-contain p-2 bg-white dark:bg-gray-700';
-                        }
-                      }}
-                    />
-                  ) : (
-                    <img
-                      src={getFaviconUrl(bookmark.url) || ''}
-                      alt=""
-                      className="h-12 w-12 rounded-sm object-contain p-2 bg-white dark:bg-gray-700"
-                      onError={e => {
-                        (e.target as HTMLImageElement).src =
-                          'data:image/svg+xml,%3Csvg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"%3E%3Cpath d="m19 21-7-5-7 5V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2v16z"%3E%3C/path%3E%3C/svg%3E';
-                        (e.target as HTMLImageElement).className =
-                          'h-12 w-12 rounded-sm object-contain p-3 opacity-20';
-                      }}
-                    />
-                  )}
-                </div>
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-center justify-between">
-                    <h3 className="text-sm font-medium text-gray-900 dark:text-white truncate">
-                      {bookmark.title}
-                    </h3>
-                    <div className="flex items-center space-x-2 ml-2">
                       <button
                         onClick={e => {
                           e.stopPropagation();
@@ -238,10 +324,10 @@ const BookmarkList: React.FC<BookmarkListProps> = ({
                       >
                         {isAuthenticated ? (
                           <Star
-                            className={`h-4 w-4 ${bookmark.favorite ? 'text-yellow-400 fill-yellow-400' : ''}`}
+                            className={`h-5 w-5 ${bookmark.favorite ? 'text-yellow-400 fill-yellow-400' : ''}`}
                           />
                         ) : (
-                          <Lock className="h-4 w-4" />
+                          <Lock className="h-5 w-5" />
                         )}
                       </button>
                       <a
@@ -252,41 +338,174 @@ const BookmarkList: React.FC<BookmarkListProps> = ({
                         className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
                         aria-label="Open link"
                       >
-                        <ExternalLink className="h-4 w-4" />
+                        <ExternalLink className="h-5 w-5" />
                       </a>
+                      {isAuthenticated && (
+                        <BookmarkQuickActions
+                          bookmark={bookmark}
+                          folders={folders}
+                          tags={tags}
+                          areTagsPartial={areTagsPartial}
+                          onMoveToFolder={folderId => onMoveToFolder(bookmark.id, folderId)}
+                          onAddTag={tag => onAddTag(bookmark.id, tag)}
+                          onToggleFavorite={() => onToggleFavorite(bookmark.id)}
+                        />
+                      )}
                     </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Mobile view - Card layout */}
+      <div className="sm:hidden">
+        <div
+          ref={setCardList}
+          {...cardListProps}
+          className="divide-y divide-gray-200 dark:divide-gray-700"
+        >
+          {cardItems.map(item => {
+            if (item.type === 'spacer') {
+              return <div key={item.key} style={{ height: item.height }} aria-hidden="true" />;
+            }
+            const bookmark = bookmarksById.get(item.key)!;
+            return (
+              <div
+                key={bookmark.id}
+                ref={measureCard}
+                data-virtual-key={bookmark.id}
+                aria-current={bookmark.id === cursorId || undefined}
+                className={`p-4 cursor-pointer ${
+                  isSelected(bookmark.id)
+                    ? 'bg-blue-50 dark:bg-blue-900/30'
+                    : 'hover:bg-gray-50 dark:hover:bg-gray-750'
+                } ${bookmark.id === cursorId ? cursorClass : ''}`}
+                onClick={e => handleRowClick(e, bookmark)}
+                draggable={isAuthenticated}
+                onDragStart={e => startBookmarkDrag(e, bookmark.id)}
+              >
+                <div className="flex items-start space-x-4">
+                  <div className="pt-1">{renderCheckbox(bookmark)}</div>
+                  <div className="h-12 w-12 shrink-0">
+                    {bookmark.thumbnail ? (
+                      <img
+                        className="h-12 w-12 rounded-sm object-cover"
+                        src={bookmark.thumbnail}
+                        alt=""
+                        onError={e => {
+                          const favicon = getFaviconUrl(bookmark.url);
+                          if (favicon) {
+                            (e.target as HTMLImageElement).src = favicon;
+                            (e.target as HTMLImageElement).className =
+                              'h-12 w-12 rounded-sm object-contain p-2 bg-white dark:bg-gray-700';
+                          }
+                        }}
+                      />
+                    ) : (
+                      <img
+                        src={getFaviconUrl(bookmark.url) || ''}
+                        alt=""
+                        className="h-12 w-12 rounded-sm object-contain p-2 bg-white dark:bg-gray-700"
+                        onError={e => {
+                          (e.target as HTMLImageElement).src =
+                            'data:image/svg+xml,%3Csvg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"%3E%3Cpath d="m19 21-7-5-7 5V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2v16z"%3E%3C/path%3E%3C/svg%3E';
+                          (e.target as HTMLImageElement).className =
+                            'h-12 w-12 rounded-sm object-contain p-3 opacity-20';
+                        }}
+                      />
+                    )}
                   </div>
-                  <p className="mt-1 text-sm text-gray-500 dark:text-gray-400 truncate">
-                    {bookmark.url.replace(/^https?:\/\//, '')}
-                  </p>
-                  {bookmark.tags.length > 0 && (
-                    <div className="mt-2 flex flex-wrap gap-1">
-                      {bookmark.tags.slice(0, 2).map(tag => (
-                        <span
-                          key={tag}
-                          className="inline-block bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-300 text-xs px-2 py-0.5 rounded-sm"
-                          onClick={e => e.stopPropagation()}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between">
+                      <h3 className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                        <HighlightedText text={bookmark.title} words={highlights?.[bookmark.id]} />
+                      </h3>
+                      <div className="flex items-center space-x-2 ml-2">
+                        <LinkHealthBadge bookmark={bookmark} check={linkChecks[bookmark.id]} />
+                        <button
+                          onClick={e => {
+                            e.stopPropagation();
+                            onToggleFavorite(bookmark.id);
+                          }}
+                          className={`${
+                            isAuthenticated
+                              ? 'text-gray-400 hover:text-yellow-500'
+                              : 'text-gray-300 dark:text-gray-600 cursor-not-allowed'
+                          }`}
+                          aria-label={
+                            bookmark.favorite ? 'Remove from favorites' : 'Add to favorites'
+                          }
+                          disabled={!isAuthenticated}
                         >
-                          {tag}
-                        </span>
-                      ))}
-                      {bookmark.tags.length > 2 && (
-                        <span
-                          className="inline-block bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-300 text-xs px-2 py-0.5 rounded-sm"
+                          {isAuthenticated ? (
+                            <Star
+                              className={`h-4 w-4 ${bookmark.favorite ? 'text-yellow-400 fill-yellow-400' : ''}`}
+                            />
+                          ) : (
+                            <Lock className="h-4 w-4" />
+                          )}
+                        </button>
+                        <a
+                          href={bookmark.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
                           onClick={e => e.stopPropagation()}
+                          className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+                          aria-label="Open link"
                         >
-                          +{bookmark.tags.length - 2}
-                        </span>
-                      )}
+                          <ExternalLink className="h-4 w-4" />
+                        </a>
+                        {isAuthenticated && (
+                          <BookmarkQuickActions
+                            bookmark={bookmark}
+                            folders={folders}
+                            tags={tags}
+                            areTagsPartial={areTagsPartial}
+                            onMoveToFolder={folderId => onMoveToFolder(bookmark.id, folderId)}
+                            onAddTag={tag => onAddTag(bookmark.id, tag)}
+                            onToggleFavorite={() => onToggleFavorite(bookmark.id)}
+                          />
+                        )}
+                      </div>
+                    </div>
+                    <p className="mt-1 text-sm text-gray-500 dark:text-gray-400 truncate">
+                      <HighlightedText
+                        text={bookmark.url.replace(/^https?:\/\//, '')}
+                        words={highlights?.[bookmark.id]}
+                      />
+                    </p>
+                    {bookmark.tags.length > 0 && (
+                      <div className="mt-2 flex flex-wrap gap-1">
+                        {bookmark.tags.slice(0, 2).map(tag => (
+                          <span
+                            key={tag}
+                            className="inline-block bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-300 text-xs px-2 py-0.5 rounded-sm"
+                            onClick={e => e.stopPropagation()}
+                          >
+                            <HighlightedText text={tag} words={highlights?.[bookmark.id]} />
+                          </span>
+                        ))}
+                        {bookmark.tags.length > 2 && (
+                          <span
+                            className="inline-block bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-300 text-xs px-2 py-0.5 rounded-sm"
+                            onClick={e => e.stopPropagation()}
+                          >
+                            +{bookmark.tags.length - 2}
+                          </span>
+                        )}
+                      </div>
+                    )}
+                    <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                      {new Date(bookmark.dateAdded).toLocaleDateString()}
                     </div>
-                  )}
-                  <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-                    {new Date(bookmark.dateAdded).toLocaleDateString()}
                   </div>
                 </div>
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       </div>
     </div>
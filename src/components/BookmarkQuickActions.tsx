@@ -0,0 +1,151 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { MoreVertical, Star } from 'lucide-react';
+import { Bookmark, Folder } from '../types';
+import FolderOptions from './FolderOptions';
+
+interface BookmarkQuickActionsProps {
+  bookmark: Bookmark;
+  folders: Folder[];
+  tags: string[];
+  // Set while only some of the bookmarks are loaded, so tags may be missing some
+  areTagsPartial: boolean;
+  onMoveToFolder: (folderId: string | null) => void;
+  onAddTag: (tag: string) => void;
+  onToggleFavorite: () => void;
+  className?: string;
+}
+
+// Keyboard-accessible counterpart of dragging a bookmark onto a folder, Favorites or a tag
+const BookmarkQuickActions: React.FC<BookmarkQuickActionsProps> = ({
+  bookmark,
+  folders,
+  tags,
+  areTagsPartial,
+  onMoveToFolder,
+  onAddTag,
+  onToggleFavorite,
+  className = '',
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const triggerRef = useRef<HTMLButtonElement>(null);
+  const availableTags = tags.filter(tag => !bookmark.tags.includes(tag));
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const close = () => {
+    setIsOpen(false);
+    triggerRef.current?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.stopPropagation();
+      close();
+    }
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative ${className}`}
+      onClick={e => e.stopPropagation()}
+      onKeyDown={handleKeyDown}
+    >
+      <button
+        ref={triggerRef}
+        onClick={() => setIsOpen(open => !open)}
+        className="p-1 rounded-full text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700 cursor-pointer"
+        aria-label="Bookmark actions"
+        aria-haspopup="true"
+        aria-expanded={isOpen}
+      >
+        <MoreVertical className="h-4 w-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 w-56 z-20 p-3 space-y-3 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md shadow-lg text-left">
+          <div>
+            <label
+              htmlFor={`move-${bookmark.id}`}
+              className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1"
+            >
+              Move to folder
+            </label>
+            <select
+              id={`move-${bookmark.id}`}
+              value={bookmark.folderId || ''}
+              onChange={e => {
+                onMoveToFolder(e.target.value || null);
+                close();
+              }}
+              className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700"
+              autoFocus
+            >
+              <option value="">No Folder</option>
+              <FolderOptions folders={folders} />
+            </select>
+          </div>
+
+          {availableTags.length > 0 && (
+            <div>
+              <label
+                htmlFor={`tag-${bookmark.id}`}
+                className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1"
+              >
+                Add tag
+              </label>
+              <select
+                id={`tag-${bookmark.id}`}
+                value=""
+                onChange={e => {
+                  if (e.target.value) onAddTag(e.target.value);
+                  close();
+                }}
+                className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700"
+              >
+                <option value="">Choose a tag…</option>
+                {availableTags.map(tag => (
+                  <option key={tag} value={tag}>
+                    {tag}
+                  </option>
+                ))}
+              </select>
+              {areTagsPartial && (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Only tags of the bookmarks loaded so far are listed.
+                </p>
+              )}
+            </div>
+          )}
+
+          <button
+            onClick={() => {
+              onToggleFavorite();
+              close();
+            }}
+            className="w-full flex items-center px-2 py-1 text-sm rounded-md hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            <Star
+              className={`h-4 w-4 mr-2 ${bookmark.favorite ? 'text-yellow-400 fill-yellow-400' : 'text-gray-400'}`}
+            />
+            {bookmark.favorite ? 'Remove from favorites' : 'Add to favorites'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BookmarkQuickActions;
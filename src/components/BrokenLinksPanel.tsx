@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { RefreshCw, CornerDownRight, Trash2, Loader2, Settings } from 'lucide-react';
+import { Bookmark, LinkCheck } from '../types';
+import { BulkResult } from '../hooks/useBookmarks';
+import { LinkCheckProgress } from '../hooks/useLinkChecks';
+import { getLinkHealth } from '../services/linkHealth';
+
+interface BrokenLinksPanelProps {
+  // The bookmarks listed in the view; the actions apply to the selected ones, if any
+  bookmarks: Bookmark[];
+  selectedBookmarks: Bookmark[];
+  linkChecks: Record<string, LinkCheck>;
+  progress: LinkCheckProgress | null;
+  isConfigured: boolean;
+  isAuthenticated: boolean;
+  onCheckLinks: () => void;
+  onStopChecking: () => void;
+  onBulkUpdate: (ids: string[], update: (bookmark: Bookmark) => Bookmark) => Promise<BulkResult>;
+  onBulkDelete: (ids: string[]) => Promise<BulkResult>;
+  onOpenSettings: () => void;
+}
+
+const BrokenLinksPanel: React.FC<BrokenLinksPanelProps> = ({
+  bookmarks,
+  selectedBookmarks,
+  linkChecks,
+  progress,
+  isConfigured,
+  isAuthenticated,
+  onCheckLinks,
+  onStopChecking,
+  onBulkUpdate,
+  onBulkDelete,
+  onOpenSettings,
+}) => {
+  const [isRunning, setIsRunning] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const targets = selectedBookmarks.length > 0 ? selectedBookmarks : bookmarks;
+  const redirected = targets.filter(
+    bookmark => getLinkHealth(bookmark, linkChecks[bookmark.id]) === 'redirected'
+  );
+  const broken = targets.filter(
+    bookmark => getLinkHealth(bookmark, linkChecks[bookmark.id]) === 'broken'
+  );
+  const scope = selectedBookmarks.length > 0 ? 'selected' : 'listed';
+
+  const run = async (label: string, action: () => Promise<BulkResult>) => {
+    setIsRunning(true);
+    setStatus(null);
+    try {
+      const { succeeded, failed } = await action();
+      setStatus(
+        failed.length > 0
+          ? `${label} ${succeeded.length} bookmarks, ${failed.length} failed`
+          : `${label} ${succeeded.length} bookmarks`
+      );
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleUseRedirects = () =>
+    run('Updated', () =>
+      onBulkUpdate(
+        redirected.map(bookmark => bookmark.id),
+        bookmark => ({ ...bookmark, url: linkChecks[bookmark.id]?.finalUrl || bookmark.url })
+      )
+    );
+
+  const handleDelete = () => {
+    setConfirmDelete(false);
+    run('Deleted', () => onBulkDelete(broken.map(bookmark => bookmark.id)));
+  };
+
+  const buttonClass =
+    'flex items-center px-3 py-1.5 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer';
+
+  return (
+    <div className="mb-4 p-3 bg-gray-100 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md text-sm space-y-2">
+      <p className="text-gray-600 dark:text-gray-400">
+        Bookmarks whose last link check failed or ended up at another address. Links are checked
+        again when you run a new check.
+      </p>
+
+      {!isConfigured ? (
+        <button onClick={onOpenSettings} className={`${buttonClass} bg-white dark:bg-gray-700`}>
+          <Settings className="h-4 w-4 mr-1" />
+          Set up the link checker
+        </button>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          {progress ? (
+            <>
+              <span className="flex items-center text-gray-600 dark:text-gray-300" role="status">
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                Checking {progress.done} of {progress.total}…
+              </span>
+              <button onClick={onStopChecking} className={buttonClass}>
+                Stop
+              </button>
+            </>
+          ) : (
+            <button onClick={onCheckLinks} className={`${buttonClass} bg-white dark:bg-gray-700`}>
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Check all links
+            </button>
+          )}
+
+          {isAuthenticated && (
+            <>
+              <button
+                onClick={handleUseRedirects}
+                disabled={isRunning || redirected.length === 0}
+                className={buttonClass}
+                title={`Replace the URL of the ${scope} redirected bookmarks with where they lead`}
+              >
+                <CornerDownRight className="h-4 w-4 mr-1" />
+                Use redirect targets ({redirected.length})
+              </button>
+              {confirmDelete ? (
+                <div className="flex items-center gap-1">
+                  <span className="text-red-700 dark:text-red-400">
+                    Delete {broken.length} broken?
+                  </span>
+                  <button
+                    onClick={handleDelete}
+                    className="px-2 py-1 bg-red-600 text-white rounded-md hover:bg-red-700"
+                  >
+                    Delete
+                  </button>
+                  <button
+                    onClick={() => setConfirmDelete(false)}
+                    className="px-2 py-1 bg-gray-200 dark:bg-gray-700 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => setConfirmDelete(true)}
+                  disabled={isRunning || broken.length === 0}
+                  className={`${buttonClass} text-red-600 dark:text-red-400`}
+                  title={`Delete the ${scope} bookmarks whose links are broken`}
+                >
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Delete broken ({broken.length})
+                </button>
+              )}
+            </>
+          )}
+
+          {isRunning && <Loader2 className="h-4 w-4 animate-spin text-gray-500" />}
+          {status && !isRunning && (
+            <span className="text-gray-600 dark:text-gray-300" role="status">
+              {status}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BrokenLinksPanel;
@@ -1,54 +1,246 @@
 import React, { useState } from 'react';
-import { X, Moon, Sun, Sidebar, Layout, Key, FolderTree, Trash2 } from 'lucide-react';
-import { AppConfig } from '../types';
+import {
+  X,
+  Moon,
+  Sun,
+  Sidebar,
+  Layout,
+  Key,
+  FolderTree,
+  Trash2,
+  CheckCircle,
+  AlertTriangle,
+  XCircle,
+  WifiOff,
+  Plus,
+  Check,
+  HardDrive,
+  Link2,
+  Tag,
+  FolderSearch,
+  Keyboard,
+} from 'lucide-react';
+import {
+  ApiProfile,
+  AppConfig,
+  AuthStatus,
+  ShortcutAction,
+  Shortcuts,
+  TagNormalization,
+} from '../types';
+import { createApiClient, KeyVerificationResult } from '../services/apiClient';
+import { createProfile, PROFILE_COLORS } from '../services/profiles';
+import { formatSynonyms, parseSynonyms } from '../services/tagNormalization';
+import {
+  DEFAULT_SHORTCUTS,
+  SHORTCUT_ACTIONS,
+  findConflictingBinding,
+  formatBindings,
+  parseBindings,
+} from '../services/shortcuts';
+import LocalDataMigration from './LocalDataMigration';
 
 interface ConfigModalProps {
   config: AppConfig;
+  authStatus: AuthStatus;
   onClose: () => void;
   onSave: (config: AppConfig) => void;
 }
 
-const ConfigModal: React.FC<ConfigModalProps> = ({ config, onClose, onSave }) => {
+const CONNECTION_RESULTS: Record<
+  KeyVerificationResult,
+  { message: string; icon: React.ElementType; className: string }
+> = {
+  valid: {
+    message: 'Connected. This key can view and change bookmarks.',
+    icon: CheckCircle,
+    className: 'text-green-600 dark:text-green-400',
+  },
+  readOnly: {
+    message: 'Connected, but this key can only view bookmarks.',
+    icon: AlertTriangle,
+    className: 'text-yellow-600 dark:text-yellow-400',
+  },
+  invalid: {
+    message: 'The server rejected this API key.',
+    icon: XCircle,
+    className: 'text-red-600 dark:text-red-400',
+  },
+  unreachable: {
+    message: 'Could not reach the API. Check your connection and try again.',
+    icon: WifiOff,
+    className: 'text-red-600 dark:text-red-400',
+  },
+  unsupported: {
+    message: 'Connected, but this server cannot verify API keys.',
+    icon: AlertTriangle,
+    className: 'text-yellow-600 dark:text-yellow-400',
+  },
+};
+
+// Bindings are edited as text and parsed on save, like the synonyms
+const formatShortcuts = (shortcuts: Shortcuts) =>
+  Object.fromEntries(
+    SHORTCUT_ACTIONS.map(({ action }) => [action, formatBindings(shortcuts[action])])
+  ) as Record<ShortcutAction, string>;
+
+const ConfigModal: React.FC<ConfigModalProps> = ({ config, authStatus, onClose, onSave }) => {
   const [editedConfig, setEditedConfig] = useState<AppConfig>({ ...config });
-  const [apiKeyError, setApiKeyError] = useState<string | null>(null);
+  const [editingProfileId, setEditingProfileId] = useState(config.activeProfileId);
+  const [profileError, setProfileError] = useState<string | null>(null);
+  const [linkCheckError, setLinkCheckError] = useState<string | null>(null);
+  // Edited as text and parsed on save, so half-typed lines are not lost
+  const [synonymsText, setSynonymsText] = useState(() =>
+    formatSynonyms(config.tagNormalization.synonyms)
+  );
+  const [shortcutsText, setShortcutsText] = useState(() => formatShortcuts(config.shortcuts));
+  const [shortcutError, setShortcutError] = useState<string | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const [connectionTest, setConnectionTest] = useState<{
+    target: string;
+    result: KeyVerificationResult;
+  } | null>(null);
+
+  const editingProfile =
+    editedConfig.profiles.find(profile => profile.id === editingProfileId) ||
+    editedConfig.profiles[0];
+  const savedProfile = config.profiles.find(profile => profile.id === editingProfile.id);
+  const isUnchanged =
+    savedProfile?.baseUrl === editingProfile.baseUrl &&
+    savedProfile.apiKey === editingProfile.apiKey;
 
   const handleChange = (key: keyof AppConfig, value: boolean | string | 'grid' | 'list') => {
     setEditedConfig({
       ...editedConfig,
       [key]: value,
     });
+  };
 
-    // Clear API key error when user starts typing
-    if (key === 'apiKey') {
-      setApiKeyError(null);
+  const updateTagNormalization = (fields: Partial<TagNormalization>) => {
+    setEditedConfig(prev => ({
+      ...prev,
+      tagNormalization: { ...prev.tagNormalization, ...fields },
+    }));
+  };
+
+  const updateProfile = (fields: Partial<ApiProfile>) => {
+    setEditedConfig(prev => ({
+      ...prev,
+      profiles: prev.profiles.map(profile =>
+        profile.id === editingProfile.id ? { ...profile, ...fields } : profile
+      ),
+    }));
+    // Clear the error when user starts typing
+    setProfileError(null);
+  };
+
+  const addProfile = (fields: Partial<ApiProfile> = {}) => {
+    const profile = createProfile(editedConfig.profiles, fields);
+    setEditedConfig(prev => ({ ...prev, profiles: [...prev.profiles, profile] }));
+    setEditingProfileId(profile.id);
+    setProfileError(null);
+  };
+
+  const removeProfile = () => {
+    const profiles = editedConfig.profiles.filter(profile => profile.id !== editingProfile.id);
+    setEditedConfig(prev => ({
+      ...prev,
+      profiles,
+      activeProfileId:
+        prev.activeProfileId === editingProfile.id ? profiles[0].id : prev.activeProfileId,
+    }));
+    setEditingProfileId(profiles[0].id);
+    setProfileError(null);
+  };
+
+  const targetOf = (profile: ApiProfile) => `${profile.baseUrl} ${profile.apiKey}`;
+
+  const testConnection = async (profile: ApiProfile) => {
+    setIsTesting(true);
+    try {
+      const result = await createApiClient(profile)
+        .verifyKey()
+        .catch((): KeyVerificationResult => 'unreachable');
+      setConnectionTest({ target: targetOf(profile), result });
+      return result;
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const isHttpUrl = (value: string) => {
+    try {
+      return ['http:', 'https:'].includes(new URL(value).protocol);
+    } catch {
+      return false;
     }
   };
 
-  const validateApiKey = (apiKey: string): boolean => {
-    // This is a simple validation - in a real app, you would validate against your backend
-    // For demo purposes, we'll accept any key that's at least 8 characters
-    return apiKey.trim().length >= 8;
+  const validateProfile = (profile: ApiProfile): string | null => {
+    if (!profile.label.trim()) return 'Give the profile a name';
+    if (profile.storage === 'local') return null;
+    if (!isHttpUrl(profile.baseUrl)) return 'The API URL must start with http:// or https://';
+    return null;
   };
 
-  const handleSave = () => {
-    // If API key is provided but invalid, show error
-    if (editedConfig.apiKey && !validateApiKey(editedConfig.apiKey)) {
-      setApiKeyError('API key must be at least 8 characters');
+  const handleSave = async () => {
+    const linkCheckUrl = editedConfig.linkCheckUrl.trim();
+    if (linkCheckUrl && !isHttpUrl(linkCheckUrl)) {
+      setLinkCheckError('The link checker URL must start with http:// or https://');
       return;
     }
 
-    onSave(editedConfig);
-    onClose();
-  };
+    const shortcuts = Object.fromEntries(
+      SHORTCUT_ACTIONS.map(({ action }) => [action, parseBindings(shortcutsText[action])])
+    ) as Shortcuts;
+    const conflict = findConflictingBinding(shortcuts);
+    if (conflict) {
+      setShortcutError(`"${conflict}" is used by more than one shortcut`);
+      return;
+    }
 
-  const removeApiKey = () => {
-    setEditedConfig({
+    for (const profile of editedConfig.profiles) {
+      const error = validateProfile(profile);
+      if (error) {
+        setEditingProfileId(profile.id);
+        setProfileError(error);
+        return;
+      }
+    }
+
+    // New keys are checked with the server first. Keys that cannot be checked right now
+    // are saved anyway and verified once the API can be reached.
+    for (const profile of editedConfig.profiles) {
+      const saved = config.profiles.find(p => p.id === profile.id);
+      if (!profile.apiKey || (saved && targetOf(saved) === targetOf(profile))) continue;
+
+      setEditingProfileId(profile.id);
+      if ((await testConnection(profile)) === 'invalid') {
+        setProfileError('The server rejected this API key');
+        return;
+      }
+    }
+
+    onSave({
       ...editedConfig,
-      apiKey: '',
+      tagNormalization: { ...editedConfig.tagNormalization, synonyms: parseSynonyms(synonymsText) },
+      shortcuts,
     });
-    setApiKeyError(null);
+    onClose();
   };
 
+  const testResult =
+    connectionTest?.target === targetOf(editingProfile)
+      ? CONNECTION_RESULTS[connectionTest.result]
+      : null;
+  const isActive = editingProfile.id === editedConfig.activeProfileId;
+  const isLocal = editingProfile.storage === 'local';
+  // The browser has room for a single browser-only profile
+  const hasLocalProfile = editedConfig.profiles.some(profile => profile.storage === 'local');
+  const inputClassName =
+    'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-xs focus:outline-hidden focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700';
+  const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md">
@@ -63,7 +255,7 @@ const ConfigModal: React.FC<ConfigModalProps> = ({ config, onClose, onSave }) =>
           </button>
         </div>
 
-        <div className="p-4 space-y-4">
+        <div className="p-4 space-y-4 max-h-[70vh] overflow-y-auto">
           <div className="flex items-center justify-between">
             <div className="flex items-center">
               <Sidebar className="h-5 w-5 mr-2 text-gray-600 dark:text-gray-400" />
@@ -145,45 +337,358 @@ const ConfigModal: React.FC<ConfigModalProps> = ({ config, onClose, onSave }) =>
             </label>
           </div>
 
-          <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
-            <div className="flex items-center mb-2">
-              <Key className="h-5 w-5 mr-2 text-gray-600 dark:text-gray-400" />
-              <span className="font-medium">Authentication</span>
+          <div className="flex items-center justify-between">
+            <div
+              className="flex items-center"
+              title="Keep smart folders on the API too, so they are available on other devices"
+            >
+              <FolderSearch className="h-5 w-5 mr-2 text-gray-600 dark:text-gray-400" />
+              <span>Sync Smart Folders</span>
             </div>
-            <div className="mt-2">
-              <label
-                htmlFor="apiKey"
-                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
-              >
-                API Key
+            <label className="relative inline-flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                className="sr-only peer"
+                checked={editedConfig.syncSavedSearches}
+                onChange={e => handleChange('syncSavedSearches', e.target.checked)}
+              />
+              <div className="w-11 h-6 bg-gray-200 peer-focus:outline-hidden peer-focus:ring-4 peer-focus:ring-blue-300 dark:peer-focus:ring-blue-800 rounded-full peer dark:bg-gray-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-blue-600"></div>
+            </label>
+          </div>
+
+          <div>
+            <label htmlFor="linkCheckUrl" className="flex items-center mb-1">
+              <Link2 className="h-5 w-5 mr-2 text-gray-600 dark:text-gray-400" />
+              <span>Link Checker URL</span>
+            </label>
+            <input
+              type="url"
+              id="linkCheckUrl"
+              value={editedConfig.linkCheckUrl}
+              onChange={e => {
+                handleChange('linkCheckUrl', e.target.value);
+                setLinkCheckError(null);
+              }}
+              placeholder="http://localhost:8787/check"
+              className={inputClassName}
+            />
+            {linkCheckError ? (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">{linkCheckError}</p>
+            ) : (
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Used to find broken links. It is asked for <code>?url=&lt;link&gt;</code> and
+                answers with the status and the URL redirects lead to.
+              </p>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center mb-1">
+              <Tag className="h-5 w-5 mr-2 text-gray-600 dark:text-gray-400" />
+              <span>Tag Cleanup</span>
+            </div>
+            <p className="mb-2 text-xs text-gray-500 dark:text-gray-400">
+              Applied to a bookmark's tags when it is saved from the editor.
+            </p>
+            <div className="flex items-center gap-4 mb-2 text-sm">
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={editedConfig.tagNormalization.trim}
+                  onChange={e => updateTagNormalization({ trim: e.target.checked })}
+                  className="mr-2 accent-blue-600"
+                />
+                Trim spaces
+              </label>
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={editedConfig.tagNormalization.lowercase}
+                  onChange={e => updateTagNormalization({ lowercase: e.target.checked })}
+                  className="mr-2 accent-blue-600"
+                />
+                Make lowercase
               </label>
-              <div className="flex items-center gap-2">
-                <div className="flex-1">
+            </div>
+            <label htmlFor="tagSynonyms" className={labelClassName}>
+              Synonyms
+            </label>
+            <textarea
+              id="tagSynonyms"
+              value={synonymsText}
+              onChange={e => setSynonymsText(e.target.value)}
+              rows={3}
+              placeholder={'reactjs, react.js = react\njs = javascript'}
+              className={`${inputClassName} font-mono text-sm`}
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              One line per tag: the tags before <code>=</code> are replaced by the one after it.
+            </p>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <div className="flex items-center">
+                <Keyboard className="h-5 w-5 mr-2 text-gray-600 dark:text-gray-400" />
+                <span>Keyboard Shortcuts</span>
+              </div>
+              <button
+                onClick={() => {
+                  setShortcutsText(formatShortcuts(DEFAULT_SHORTCUTS));
+                  setShortcutError(null);
+                }}
+                className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Reset to defaults
+              </button>
+            </div>
+            <p className="mb-2 text-xs text-gray-500 dark:text-gray-400">
+              Separate several keys for the same action with commas, and keys pressed one after the
+              other with spaces, as in <code>g f</code>. Keys are named as the browser names them,
+              such as <code>ArrowDown</code>, <code>Enter</code> or <code>Space</code>.
+            </p>
+            <div className="space-y-2">
+              {SHORTCUT_ACTIONS.map(({ action, label }) => (
+                <div key={action} className="flex items-center gap-2">
+                  <label htmlFor={`shortcut-${action}`} className="flex-1 text-sm">
+                    {label}
+                  </label>
                   <input
-                    type="password"
-                    id="apiKey"
-                    value={editedConfig.apiKey || ''}
-                    onChange={e => handleChange('apiKey', e.target.value)}
-                    placeholder="Enter your API key"
-                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-xs focus:outline-hidden focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700"
+                    type="text"
+                    id={`shortcut-${action}`}
+                    value={shortcutsText[action]}
+                    onChange={e => {
+                      setShortcutsText(prev => ({ ...prev, [action]: e.target.value }));
+                      setShortcutError(null);
+                    }}
+                    spellCheck={false}
+                    className="w-40 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md shadow-xs focus:outline-hidden focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 font-mono text-sm"
                   />
                 </div>
-                {editedConfig.apiKey && (
+              ))}
+            </div>
+            {shortcutError && (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">{shortcutError}</p>
+            )}
+          </div>
+
+          <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+            <div className="flex items-center justify-between mb-2">
+              <div className="flex items-center">
+                <Key className="h-5 w-5 mr-2 text-gray-600 dark:text-gray-400" />
+                <span className="font-medium">Connection Profiles</span>
+              </div>
+              <div className="flex items-center">
+                {!hasLocalProfile && (
                   <button
-                    onClick={removeApiKey}
-                    className="p-2 text-red-600 hover:bg-red-100 dark:hover:bg-red-900/30 rounded-md"
-                    title="Remove API key"
+                    onClick={() =>
+                      addProfile({ storage: 'local', label: 'This browser', baseUrl: '' })
+                    }
+                    className="flex items-center px-2 py-1 text-sm rounded text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30"
+                    title="Keep bookmarks in this browser, without an account"
                   >
-                    <Trash2 className="h-5 w-5" />
+                    <HardDrive className="h-4 w-4 mr-1" />
+                    Browser only
                   </button>
                 )}
+                <button
+                  onClick={() => addProfile()}
+                  className="flex items-center px-2 py-1 text-sm rounded text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add profile
+                </button>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2" role="tablist" aria-label="Connection profiles">
+              {editedConfig.profiles.map(profile => (
+                <button
+                  key={profile.id}
+                  role="tab"
+                  aria-selected={profile.id === editingProfile.id}
+                  onClick={() => {
+                    setEditingProfileId(profile.id);
+                    setProfileError(null);
+                  }}
+                  className={`flex items-center px-2 py-1 text-sm rounded-full border ${
+                    profile.id === editingProfile.id
+                      ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30'
+                      : 'border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  <span
+                    className="h-2.5 w-2.5 mr-1.5 rounded-full shrink-0"
+                    style={{ backgroundColor: profile.color }}
+                    aria-hidden="true"
+                  />
+                  {profile.label || 'Untitled'}
+                  {profile.id === editedConfig.activeProfileId && (
+                    <Check className="h-3.5 w-3.5 ml-1 text-blue-600 dark:text-blue-400" />
+                  )}
+                </button>
+              ))}
+            </div>
+
+            <div className="mt-3 space-y-3">
+              <div>
+                <label htmlFor="profileLabel" className={labelClassName}>
+                  Name
+                </label>
+                <input
+                  type="text"
+                  id="profileLabel"
+                  value={editingProfile.label}
+                  onChange={e => updateProfile({ label: e.target.value })}
+                  placeholder="e.g. Production"
+                  className={inputClassName}
+                />
               </div>
-              {apiKeyError && (
-                <p className="mt-1 text-sm text-red-600 dark:text-red-400">{apiKeyError}</p>
+
+              {isLocal ? (
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Bookmarks in this profile are kept in this browser only. They are not backed up
+                  and do not show up on other devices.
+                </p>
+              ) : (
+                <>
+                  <div>
+                    <label htmlFor="profileBaseUrl" className={labelClassName}>
+                      API URL
+                    </label>
+                    <input
+                      type="url"
+                      id="profileBaseUrl"
+                      value={editingProfile.baseUrl}
+                      onChange={e => updateProfile({ baseUrl: e.target.value })}
+                      placeholder="https://api.example.com"
+                      className={inputClassName}
+                    />
+                  </div>
+
+                  <div>
+                    <label htmlFor="apiKey" className={labelClassName}>
+                      API Key
+                    </label>
+                    <div className="flex items-center gap-2">
+                      <div className="flex-1">
+                        <input
+                          type="password"
+                          id="apiKey"
+                          value={editingProfile.apiKey}
+                          onChange={e => updateProfile({ apiKey: e.target.value })}
+                          placeholder="Enter your API key"
+                          className={inputClassName}
+                        />
+                      </div>
+                      {editingProfile.apiKey && (
+                        <button
+                          onClick={() => updateProfile({ apiKey: '' })}
+                          className="p-2 text-red-600 hover:bg-red-100 dark:hover:bg-red-900/30 rounded-md"
+                          title="Remove API key"
+                        >
+                          <Trash2 className="h-5 w-5" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                </>
+              )}
+
+              <div>
+                <span className={labelClassName}>Colour</span>
+                <div className="flex gap-2">
+                  {PROFILE_COLORS.map(color => (
+                    <button
+                      key={color}
+                      onClick={() => updateProfile({ color })}
+                      className={`h-6 w-6 rounded-full ${
+                        editingProfile.color === color
+                          ? 'ring-2 ring-offset-2 ring-blue-500 dark:ring-offset-gray-800'
+                          : ''
+                      }`}
+                      style={{ backgroundColor: color }}
+                      aria-label={`Use colour ${color}`}
+                      aria-pressed={editingProfile.color === color}
+                    />
+                  ))}
+                </div>
+              </div>
+
+              {profileError && (
+                <p className="text-sm text-red-600 dark:text-red-400">{profileError}</p>
+              )}
+              {!profileError && testResult && (
+                <p className={`text-sm flex items-center gap-1 ${testResult.className}`}>
+                  <testResult.icon className="h-4 w-4 shrink-0" />
+                  {testResult.message}
+                </p>
+              )}
+              {!profileError &&
+                !testResult &&
+                !isLocal &&
+                isUnchanged &&
+                editingProfile.id === config.activeProfileId && (
+                  <>
+                    {authStatus === 'invalid' && (
+                      <p className="text-sm text-red-600 dark:text-red-400">
+                        The server rejected this API key, so the app is read-only. Enter a valid
+                        key.
+                      </p>
+                    )}
+                    {authStatus === 'readOnly' && (
+                      <p className="text-sm text-yellow-600 dark:text-yellow-400">
+                        This API key can only view bookmarks. Use a key with write access to make
+                        changes.
+                      </p>
+                    )}
+                  </>
+                )}
+
+              <div className="flex flex-wrap gap-2">
+                {!isLocal && (
+                  <button
+                    onClick={() => testConnection(editingProfile)}
+                    disabled={!editingProfile.apiKey || isTesting}
+                    className="px-3 py-1 text-sm rounded bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isTesting ? 'Testing…' : 'Test connection'}
+                  </button>
+                )}
+                {!isActive && (
+                  <button
+                    onClick={() =>
+                      setEditedConfig(prev => ({ ...prev, activeProfileId: editingProfile.id }))
+                    }
+                    className="px-3 py-1 text-sm rounded bg-blue-100 dark:bg-blue-900 text-blue-600 dark:text-blue-400 hover:bg-blue-200 dark:hover:bg-blue-800"
+                  >
+                    Use this profile
+                  </button>
+                )}
+                {editedConfig.profiles.length > 1 && (
+                  <button
+                    onClick={removeProfile}
+                    className="ml-auto px-3 py-1 text-sm rounded text-red-600 hover:bg-red-100 dark:hover:bg-red-900/30"
+                  >
+                    Delete profile
+                  </button>
+                )}
+              </div>
+              {isLocal ? (
+                <LocalDataMigration
+                  profiles={editedConfig.profiles.filter(
+                    profile => profile.storage !== 'local' && profile.apiKey
+                  )}
+                  onUseProfile={profileId => {
+                    setEditedConfig(prev => ({ ...prev, activeProfileId: profileId }));
+                    setEditingProfileId(profileId);
+                  }}
+                />
+              ) : (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  API key is required to create, edit, or delete bookmarks and folders.
+                </p>
               )}
-              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-                API key is required to create, edit, or delete bookmarks and folders.
-              </p>
             </div>
           </div>
         </div>
@@ -191,9 +696,10 @@ const ConfigModal: React.FC<ConfigModalProps> = ({ config, onClose, onSave }) =>
         <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end">
           <button
             onClick={handleSave}
-            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            disabled={isTesting}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            Save Changes
+            {isTesting ? 'Verifying…' : 'Save Changes'}
           </button>
         </div>
       </div>
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { X, Trash2, Loader2 } from 'lucide-react';
+import { Bookmark, Folder, FolderDeleteStrategy } from '../types';
+
+interface DeleteFolderModalProps {
+  folder: Folder;
+  folders: Folder[];
+  bookmarks: Bookmark[];
+  isLoading: boolean;
+  // Set when only some of the bookmarks could be loaded; the folder is then not deleted,
+  // since the bookmarks elsewhere would be left in a folder that no longer exists
+  isPartial: boolean;
+  getFolderPathName: (folderId: string | null) => string;
+  getAllChildFolderIds: (folderId: string) => string[];
+  onClose: () => void;
+  onConfirm: (strategy: FolderDeleteStrategy) => void;
+}
+
+const DeleteFolderModal: React.FC<DeleteFolderModalProps> = ({
+  folder,
+  folders,
+  bookmarks,
+  isLoading,
+  isPartial,
+  getFolderPathName,
+  getAllChildFolderIds,
+  onClose,
+  onConfirm,
+}) => {
+  const [strategy, setStrategy] = useState<FolderDeleteStrategy>('moveToParent');
+
+  const descendantIds = getAllChildFolderIds(folder.id);
+  const subtreeIds = [folder.id, ...descendantIds];
+  const subtreeBookmarks = bookmarks.filter(b => b.folderId && subtreeIds.includes(b.folderId));
+  const directSubfolders = folders.filter(f => f.parentId === folder.id);
+  const directBookmarks = bookmarks.filter(b => b.folderId === folder.id);
+  const isEmpty = descendantIds.length === 0 && directBookmarks.length === 0;
+  const canDelete = !isLoading && !isPartial;
+  const parentName = folder.parentId ? getFolderPathName(folder.parentId) : 'the root level';
+
+  const strategies: { value: FolderDeleteStrategy; label: string; description: string }[] = [
+    {
+      value: 'moveToParent',
+      label: 'Move contents to parent folder',
+      description: `${directBookmarks.length} bookmarks and ${directSubfolders.length} subfolders move to ${parentName}.`,
+    },
+    {
+      value: 'unfile',
+      label: 'Move contents to "No Folder"',
+      description: `${directBookmarks.length} bookmarks lose their folder and ${directSubfolders.length} subfolders move to the root level.`,
+    },
+    {
+      value: 'cascade',
+      label: 'Delete everything inside',
+      description: `${subtreeBookmarks.length} bookmarks and ${descendantIds.length} subfolders will be permanently deleted.`,
+    },
+  ];
+
+  const handleConfirm = () => {
+    onConfirm(isEmpty ? 'cascade' : strategy);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold">Delete Folder</h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700"
+            aria-label="Close"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <p className="text-sm">
+            Delete <span className="font-medium">{getFolderPathName(folder.id)}</span>?
+          </p>
+
+          {isPartial && !isLoading && (
+            <p className="text-xs text-yellow-700 dark:text-yellow-400">
+              Not every bookmark could be loaded, so the folder cannot be deleted without leaving
+              some of its bookmarks behind. Try again once the server can be reached.
+            </p>
+          )}
+
+          {isLoading ? (
+            <p className="flex items-center text-sm text-gray-500 dark:text-gray-400" role="status">
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              Loading all bookmarks…
+            </p>
+          ) : isEmpty ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">This folder is empty.</p>
+          ) : (
+            <fieldset className="space-y-2">
+              <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                What should happen to its contents?
+              </legend>
+              {strategies.map(option => (
+                <label
+                  key={option.value}
+                  className={`flex items-start p-2 rounded-md border cursor-pointer ${
+                    strategy === option.value
+                      ? option.value === 'cascade'
+                        ? 'border-red-500 bg-red-50 dark:bg-red-900/20'
+                        : 'border-blue-500 bg-blue-50 dark:bg-blue-900/30'
+                      : 'border-gray-200 dark:border-gray-700'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="deleteStrategy"
+                    value={option.value}
+                    checked={strategy === option.value}
+                    onChange={() => setStrategy(option.value)}
+                    className="mt-1 mr-2"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium">{option.label}</span>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                      {option.description}
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </fieldset>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end space-x-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={!canDelete}
+            className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Trash2 className="h-4 w-4 mr-1" />
+            Delete Folder
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeleteFolderModal;
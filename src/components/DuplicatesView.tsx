@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { Copy, Loader2, Merge } from 'lucide-react';
+import { Bookmark, Folder } from '../types';
+import { DuplicateGroup } from '../services/duplicates';
+import FolderOptions from './FolderOptions';
+
+interface DuplicatesViewProps {
+  groups: DuplicateGroup[];
+  folders: Folder[];
+  getFolderPathName: (folderId: string | null) => string;
+  isAuthenticated: boolean;
+  onBookmarkClick: (bookmark: Bookmark) => void;
+  onMerge: (group: Bookmark[], keepId: string, folderId: string | null) => Promise<boolean>;
+}
+
+interface MergeChoice {
+  keepId: string;
+  folderId: string | null;
+}
+
+// Lists bookmarks that point at the same page, a group per page, and merges each group
+// into the bookmark chosen to keep
+const DuplicatesView: React.FC<DuplicatesViewProps> = ({
+  groups,
+  folders,
+  getFolderPathName,
+  isAuthenticated,
+  onBookmarkClick,
+  onMerge,
+}) => {
+  // Keyed by canonical URL; groups without a choice keep their oldest bookmark and its folder
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>({});
+  const [mergingUrl, setMergingUrl] = useState<string | null>(null);
+
+  if (groups.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-64 text-gray-500 dark:text-gray-400">
+        <Copy className="h-12 w-12 mb-2" />
+        <p className="text-lg">No duplicates found</p>
+      </div>
+    );
+  }
+
+  const choiceFor = (group: DuplicateGroup): MergeChoice => {
+    const chosen = choices[group.canonicalUrl];
+    if (chosen && group.bookmarks.some(bookmark => bookmark.id === chosen.keepId)) return chosen;
+    return { keepId: group.bookmarks[0].id, folderId: group.bookmarks[0].folderId };
+  };
+
+  const choose = (group: DuplicateGroup, choice: Partial<MergeChoice>) =>
+    setChoices(prev => ({ ...prev, [group.canonicalUrl]: { ...choiceFor(group), ...choice } }));
+
+  const handleMerge = async (group: DuplicateGroup) => {
+    const { keepId, folderId } = choiceFor(group);
+    setMergingUrl(group.canonicalUrl);
+    try {
+      await onMerge(group.bookmarks, keepId, folderId);
+    } finally {
+      setMergingUrl(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        These bookmarks point at the same page once differences such as http and https, www.,
+        trailing slashes and tracking parameters are ignored. Merging keeps the chosen bookmark with
+        the tags of all of them and the earliest date added, and deletes the others.
+      </p>
+
+      {groups.map(group => {
+        const { keepId, folderId } = choiceFor(group);
+        const isMerging = mergingUrl === group.canonicalUrl;
+
+        return (
+          <div
+            key={group.canonicalUrl}
+            className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4"
+          >
+            <h3 className="font-medium text-sm text-gray-500 dark:text-gray-400 truncate mb-3">
+              {group.canonicalUrl}
+            </h3>
+
+            <ul className="space-y-2">
+              {group.bookmarks.map(bookmark => (
+                <li key={bookmark.id} className="flex items-start gap-3">
+                  <input
+                    type="radio"
+                    name={`keep-${group.canonicalUrl}`}
+                    checked={bookmark.id === keepId}
+                    onChange={() => choose(group, { keepId: bookmark.id })}
+                    disabled={!isAuthenticated || isMerging}
+                    className="mt-1 accent-blue-600"
+                    aria-label={`Keep ${bookmark.title}`}
+                  />
+                  <button
+                    onClick={() => onBookmarkClick(bookmark)}
+                    className="min-w-0 flex-1 text-left cursor-pointer"
+                  >
+                    <span className="block font-medium truncate">{bookmark.title}</span>
+                    <span className="block text-sm text-gray-500 dark:text-gray-400 truncate">
+                      {bookmark.url}
+                    </span>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                      {getFolderPathName(bookmark.folderId)} · Added{' '}
+                      {new Date(bookmark.dateAdded).toLocaleDateString()}
+                      {bookmark.tags.length > 0 && ` · ${bookmark.tags.join(', ')}`}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {isAuthenticated && (
+              <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+                <label htmlFor={`merge-folder-${group.canonicalUrl}`}>Keep in</label>
+                <select
+                  id={`merge-folder-${group.canonicalUrl}`}
+                  value={folderId ?? ''}
+                  onChange={e => choose(group, { folderId: e.target.value || null })}
+                  disabled={isMerging}
+                  className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700"
+                >
+                  <option value="">No Folder</option>
+                  <FolderOptions folders={folders} />
+                </select>
+                <button
+                  onClick={() => handleMerge(group)}
+                  disabled={isMerging}
+                  className="ml-auto flex items-center px-3 py-1.5 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isMerging ? (
+                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  ) : (
+                    <Merge className="h-4 w-4 mr-1" />
+                  )}
+                  Merge {group.bookmarks.length}
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default DuplicatesView;
@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { X, Download, Loader2 } from 'lucide-react';
+import { Bookmark, Folder } from '../types';
+import { ExportFormat, exportBookmarks, downloadFile } from '../services/bookmarkExport';
+import { isSpecialFolder } from '../services/specialFolders';
+
+type ExportScope = 'view' | 'folder' | 'all';
+
+interface ExportModalProps {
+  bookmarks: Bookmark[];
+  folders: Folder[];
+  filteredBookmarks: Bookmark[];
+  // Set while every bookmark is being downloaded from a server that pages them
+  isLoading: boolean;
+  // Set when only some of the bookmarks could be loaded
+  isPartial: boolean;
+  selectedFolder: string | null;
+  folderPath: string;
+  getFolderPathName: (folderId: string | null) => string;
+  getAllChildFolderIds: (folderId: string) => string[];
+  onClose: () => void;
+}
+
+const formatOptions: { value: ExportFormat; label: string; description: string }[] = [
+  { value: 'html', label: 'HTML', description: 'Browser bookmarks file, re-importable anywhere' },
+  { value: 'json', label: 'JSON', description: 'Complete data including folders' },
+  { value: 'csv', label: 'CSV', description: 'Spreadsheet friendly, one row per bookmark' },
+  { value: 'markdown', label: 'Markdown', description: 'Nested outline grouped by folder' },
+];
+
+const ExportModal: React.FC<ExportModalProps> = ({
+  bookmarks,
+  folders,
+  filteredBookmarks,
+  isLoading,
+  isPartial,
+  selectedFolder,
+  folderPath,
+  getFolderPathName,
+  getAllChildFolderIds,
+  onClose,
+}) => {
+  const isRealFolder = !!selectedFolder && !isSpecialFolder(selectedFolder);
+  const [scope, setScope] = useState<ExportScope>('view');
+  const [format, setFormat] = useState<ExportFormat>('html');
+
+  // Keeps the folders needed to place the exported bookmarks, including their ancestors
+  const withAncestors = (folderIds: Set<string>) => {
+    const result = new Set<string>();
+    folderIds.forEach(id => {
+      let current = folders.find(f => f.id === id);
+      while (current && !result.has(current.id)) {
+        result.add(current.id);
+        current = folders.find(f => f.id === current!.parentId);
+      }
+    });
+    return folders.filter(folder => result.has(folder.id));
+  };
+
+  const getExportData = (): { bookmarks: Bookmark[]; folders: Folder[] } => {
+    if (scope === 'all') {
+      return { bookmarks, folders };
+    }
+
+    if (scope === 'folder' && isRealFolder) {
+      const folderIds = new Set([selectedFolder, ...getAllChildFolderIds(selectedFolder)]);
+      return {
+        bookmarks: bookmarks.filter(b => b.folderId !== null && folderIds.has(b.folderId)),
+        folders: folders.filter(f => folderIds.has(f.id)),
+      };
+    }
+
+    const usedFolderIds = new Set(
+      filteredBookmarks.map(b => b.folderId).filter((id): id is string => id !== null)
+    );
+    return { bookmarks: filteredBookmarks, folders: withAncestors(usedFolderIds) };
+  };
+
+  const exportData = getExportData();
+
+  const handleExport = () => {
+    const file = exportBookmarks(format, { ...exportData, getFolderPathName });
+    downloadFile(file, `bookmarks-${new Date().toISOString().slice(0, 10)}`);
+    onClose();
+  };
+
+  const scopeOptions: { value: ExportScope; label: string; disabled?: boolean }[] = [
+    { value: 'view', label: `Current view (${folderPath})` },
+    {
+      value: 'folder',
+      label: isRealFolder
+        ? `Folder and subfolders (${getFolderPathName(selectedFolder)})`
+        : 'Folder and subfolders (select a folder first)',
+      disabled: !isRealFolder,
+    },
+    { value: 'all', label: 'Everything' },
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold">Export Bookmarks</h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700"
+            aria-label="Close"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              What to export
+            </legend>
+            <div className="space-y-2">
+              {scopeOptions.map(option => (
+                <label
+                  key={option.value}
+                  className={`flex items-center text-sm ${option.disabled ? 'opacity-50' : 'cursor-pointer'}`}
+                >
+                  <input
+                    type="radio"
+                    name="exportScope"
+                    value={option.value}
+                    checked={scope === option.value}
+                    onChange={() => setScope(option.value)}
+                    disabled={option.disabled}
+                    className="mr-2"
+                  />
+                  <span className="truncate">{option.label}</span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Format
+            </legend>
+            <div className="grid grid-cols-2 gap-2">
+              {formatOptions.map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setFormat(option.value)}
+                  className={`text-left p-2 rounded-md border ${
+                    format === option.value
+                      ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30'
+                      : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  <span className="block text-sm font-medium">{option.label}</span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">
+                    {option.description}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </fieldset>
+
+          {isLoading ? (
+            <p className="flex items-center text-sm text-gray-500 dark:text-gray-400" role="status">
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              Loading all bookmarks…
+            </p>
+          ) : (
+            <>
+              {isPartial && (
+                <p className="text-xs text-yellow-700 dark:text-yellow-400">
+                  Not every bookmark could be loaded, so only those loaded so far are exported.
+                </p>
+              )}
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {exportData.bookmarks.length} bookmarks in {exportData.folders.length} folders will
+                be exported.
+              </p>
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end space-x-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center disabled:opacity-50"
+            disabled={
+              isLoading || (exportData.bookmarks.length === 0 && exportData.folders.length === 0)
+            }
+          >
+            <Download className="h-4 w-4 mr-1" />
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportModal;
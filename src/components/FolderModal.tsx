@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { X, Folder } from 'lucide-react';
+import { X, Folder, FolderInput } from 'lucide-react';
 import { Folder as FolderType } from '../types';
 
 interface FolderModalProps {
@@ -7,11 +7,20 @@ interface FolderModalProps {
   parentId: string | null;
   onClose: () => void;
   onSave: (name: string, parentId: string | null) => void;
+  // When set, the modal moves this folder instead of creating a new one
+  folder?: FolderType | null;
 }
 
-const FolderModal: React.FC<FolderModalProps> = ({ folders, parentId, onClose, onSave }) => {
-  const [folderName, setFolderName] = useState('');
+const FolderModal: React.FC<FolderModalProps> = ({
+  folders,
+  parentId,
+  onClose,
+  onSave,
+  folder = null,
+}) => {
+  const [folderName, setFolderName] = useState(folder ? folder.name : '');
   const [selectedParentId, setSelectedParentId] = useState<string | null>(parentId);
+  const isMoving = folder !== null;
 
   const handleSave = () => {
     if (folderName.trim()) {
@@ -24,18 +33,23 @@ const FolderModal: React.FC<FolderModalProps> = ({ folders, parentId, onClose, o
   const getFolderOptions = () => {
     const rootFolders = folders.filter(folder => folder.parentId === null);
 
-    const renderOptions = (folderList: FolderType[], depth: number = 0) => {
-      return folderList.flatMap(folder => {
-        const subfolders = folders.filter(f => f.parentId === folder.id);
-        const prefix = depth > 0 ? '—'.repeat(depth) + ' ' : '';
+    const renderOptions = (folderList: FolderType[], depth: number = 0): React.ReactElement[] => {
+      return (
+        folderList
+          // A folder cannot become a child of itself or of one of its subfolders
+          .filter(option => option.id !== folder?.id)
+          .flatMap(option => {
+            const subfolders = folders.filter(f => f.parentId === option.id);
+            const prefix = depth > 0 ? '—'.repeat(depth) + ' ' : '';
 
-        return [
-          <option key={folder.id} value={folder.id}>
-            {prefix + folder.name}
-          </option>,
-          ...renderOptions(subfolders, depth + 1),
-        ];
-      });
+            return [
+              <option key={option.id} value={option.id}>
+                {prefix + option.name}
+              </option>,
+              ...renderOptions(subfolders, depth + 1),
+            ];
+          })
+      );
     };
 
     return renderOptions(rootFolders);
@@ -45,7 +59,9 @@ const FolderModal: React.FC<FolderModalProps> = ({ folders, parentId, onClose, o
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md">
         <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
-          <h2 className="text-xl font-semibold">Create New Folder</h2>
+          <h2 className="text-xl font-semibold">
+            {isMoving ? `Move "${folder.name}"` : 'Create New Folder'}
+          </h2>
           <button
             onClick={onClose}
             className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700"
@@ -56,30 +72,32 @@ const FolderModal: React.FC<FolderModalProps> = ({ folders, parentId, onClose, o
         </div>
 
         <div className="p-4 space-y-4">
-          <div>
-            <label
-              htmlFor="folderName"
-              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
-            >
-              Folder Name
-            </label>
-            <input
-              type="text"
-              id="folderName"
-              value={folderName}
-              onChange={e => setFolderName(e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-xs focus:outline-hidden focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700"
-              placeholder="My New Folder"
-              autoFocus
-            />
-          </div>
+          {!isMoving && (
+            <div>
+              <label
+                htmlFor="folderName"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+              >
+                Folder Name
+              </label>
+              <input
+                type="text"
+                id="folderName"
+                value={folderName}
+                onChange={e => setFolderName(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-xs focus:outline-hidden focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700"
+                placeholder="My New Folder"
+                autoFocus
+              />
+            </div>
+          )}
 
           <div>
             <label
               htmlFor="parentFolder"
               className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
             >
-              Parent Folder (Optional)
+              {isMoving ? 'Move to' : 'Parent Folder (Optional)'}
             </label>
             <select
               id="parentFolder"
@@ -105,8 +123,17 @@ const FolderModal: React.FC<FolderModalProps> = ({ folders, parentId, onClose, o
             className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center"
             disabled={!folderName.trim()}
           >
-            <Folder className="h-4 w-4 mr-1" />
-            Create Folder
+            {isMoving ? (
+              <>
+                <FolderInput className="h-4 w-4 mr-1" />
+                Move Folder
+              </>
+            ) : (
+              <>
+                <Folder className="h-4 w-4 mr-1" />
+                Create Folder
+              </>
+            )}
           </button>
         </div>
       </div>
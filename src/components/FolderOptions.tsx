@@ -0,0 +1,27 @@
+import React from 'react';
+import { Folder } from '../types';
+
+interface FolderOptionsProps {
+  folders: Folder[];
+}
+
+// Renders the folders as indented <option> elements for use inside a <select>
+const FolderOptions: React.FC<FolderOptionsProps> = ({ folders }) => {
+  const renderOptions = (parentId: string | null, depth: number): React.ReactElement[] =>
+    folders
+      .filter(folder => folder.parentId === parentId)
+      .flatMap(folder => {
+        const prefix = depth > 0 ? '—'.repeat(depth) + ' ' : '';
+
+        return [
+          <option key={folder.id} value={folder.id}>
+            {prefix + folder.name}
+          </option>,
+          ...renderOptions(folder.id, depth + 1),
+        ];
+      });
+
+  return <>{renderOptions(null, 0)}</>;
+};
+
+export default FolderOptions;
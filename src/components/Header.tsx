@@ -11,32 +11,67 @@ import {
   Settings,
   FolderTree,
   Folder,
+  Upload,
+  Globe,
+  AlertCircle,
+  WifiOff,
+  RefreshCw,
 } from 'lucide-react';
 import { AppConfig, AuthState } from '../types';
+import { OfflineState } from '../hooks/useOfflineSync';
+import { SearchQueryError } from '../services/searchQuery';
+import { getActiveProfile } from '../services/profiles';
 
 interface HeaderProps {
   config: AppConfig;
   authState: AuthState;
+  offlineState: OfflineState;
   searchQuery: string;
+  searchInputRef: React.Ref<HTMLInputElement>;
   onSearchChange: (query: string) => void;
+  searchErrors: SearchQueryError[];
+  searchGlobally: boolean;
+  onToggleSearchGlobally: () => void;
   onToggleSidebar: () => void;
   onToggleDarkMode: () => void;
   onToggleFlatten: () => void;
   onAddBookmark: () => void;
+  onImport: () => void;
   onOpenSettings: () => void;
+  onSwitchProfile: (profileId: string) => void;
 }
 
 const Header: React.FC<HeaderProps> = ({
   config,
   authState,
+  offlineState,
   searchQuery,
+  searchInputRef,
   onSearchChange,
+  searchErrors,
+  searchGlobally,
+  onToggleSearchGlobally,
   onToggleSidebar,
   onToggleDarkMode,
   onToggleFlatten,
   onAddBookmark,
+  onImport,
   onOpenSettings,
+  onSwitchProfile,
 }) => {
+  const activeProfile = getActiveProfile(config);
+
+  const authLabel = {
+    none: 'Not authenticated',
+    unverified: authState.isVerifying
+      ? 'Verifying API key…'
+      : 'API key not verified yet: the API could not be reached',
+    valid: 'Authenticated',
+    readOnly: 'Authenticated with a read-only API key',
+    invalid: 'API key rejected',
+    local: 'Bookmarks are stored in this browser only',
+  }[authState.status];
+
   return (
     <header className="bg-white dark:bg-gray-800 shadow-xs border-b border-gray-200 dark:border-gray-700 sticky top-0 z-40">
       <div className="container mx-auto px-4 py-3 flex items-center justify-between">
@@ -60,16 +95,109 @@ const Header: React.FC<HeaderProps> = ({
               <Search className="h-5 w-5 text-gray-400" />
             </div>
             <input
+              ref={searchInputRef}
               type="text"
-              placeholder="Search bookmarks..."
-              className="block w-full pl-10 pr-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-gray-50 dark:bg-gray-700 focus:outline-hidden focus:ring-2 focus:ring-primary dark:focus:ring-primary-light"
+              placeholder="Search bookmarks... (tag:, folder:, site:, is:favorite, added:>2025-01-01)"
+              className={`block w-full pl-10 pr-10 py-2 border ${
+                searchErrors.length > 0
+                  ? 'border-red-400 dark:border-red-500'
+                  : 'border-gray-300 dark:border-gray-600'
+              } rounded-md bg-gray-50 dark:bg-gray-700 focus:outline-hidden focus:ring-2 focus:ring-primary dark:focus:ring-primary-light`}
               value={searchQuery}
               onChange={e => onSearchChange(e.target.value)}
+              // Leaving the box gives the keys back to the keyboard shortcuts
+              onKeyDown={e => e.key === 'Escape' && e.currentTarget.blur()}
+              aria-invalid={searchErrors.length > 0}
+              aria-describedby={searchErrors.length > 0 ? 'search-errors' : undefined}
             />
+            <button
+              onClick={onToggleSearchGlobally}
+              className={`absolute inset-y-0 right-0 px-3 flex items-center rounded-r-md ${
+                searchGlobally
+                  ? 'text-primary dark:text-primary-light'
+                  : 'text-gray-400 hover:text-gray-600 dark:hover:text-gray-300'
+              }`}
+              aria-pressed={searchGlobally}
+              aria-label={searchGlobally ? 'Search current folder only' : 'Search all bookmarks'}
+              title={searchGlobally ? 'Searching all bookmarks' : 'Searching the current folder'}
+            >
+              <Globe className="h-5 w-5" />
+            </button>
+            {searchErrors.length > 0 && (
+              <ul
+                id="search-errors"
+                className="absolute left-0 right-0 top-full mt-1 p-2 space-y-1 bg-white dark:bg-gray-800 border border-red-200 dark:border-red-800 rounded-md shadow-lg text-xs text-red-700 dark:text-red-400 z-50"
+              >
+                {searchErrors.map(error => (
+                  <li key={`${error.start}-${error.message}`} className="flex items-start">
+                    <AlertCircle className="h-3 w-3 mr-1 mt-0.5 shrink-0" />
+                    <span>
+                      <code className="mr-1 px-1 bg-red-50 dark:bg-red-900/30 rounded-sm">
+                        {searchQuery.slice(error.start, error.end)}
+                      </code>
+                      {error.message}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
         </div>
 
         <div className="flex items-center space-x-3">
+          {config.profiles.length > 1 && (
+            <div
+              className="hidden sm:flex items-center pl-2 pr-1 py-1 rounded-full border-2 text-sm"
+              style={{ borderColor: activeProfile.color }}
+              title={activeProfile.baseUrl}
+            >
+              <span
+                className="h-2.5 w-2.5 rounded-full shrink-0"
+                style={{ backgroundColor: activeProfile.color }}
+                aria-hidden="true"
+              />
+              <select
+                value={activeProfile.id}
+                onChange={e => onSwitchProfile(e.target.value)}
+                className="ml-1 bg-transparent focus:outline-hidden cursor-pointer max-w-32"
+                aria-label="Switch API profile"
+              >
+                {config.profiles.map(profile => (
+                  <option key={profile.id} value={profile.id} className="text-gray-900">
+                    {profile.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          {(offlineState.isOffline || offlineState.pendingCount > 0) && (
+            <div
+              className={`hidden sm:flex items-center px-2 py-1 rounded-full text-xs whitespace-nowrap ${
+                offlineState.isOffline
+                  ? 'bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-300'
+                  : 'bg-blue-100 dark:bg-blue-900/40 text-blue-800 dark:text-blue-300'
+              }`}
+              role="status"
+              title={
+                offlineState.isOffline
+                  ? 'Changes are saved on this device and sent once the connection is back'
+                  : undefined
+              }
+            >
+              {offlineState.isOffline ? (
+                <WifiOff className="h-4 w-4 mr-1" />
+              ) : (
+                <RefreshCw
+                  className={`h-4 w-4 mr-1 ${offlineState.isSyncing ? 'animate-spin' : ''}`}
+                />
+              )}
+              {offlineState.isOffline ? 'Offline' : 'Syncing'}
+              {offlineState.pendingCount > 0 &&
+                ` — ${offlineState.pendingCount} pending change${
+                  offlineState.pendingCount === 1 ? '' : 's'
+                }`}
+            </div>
+          )}
           <button
             onClick={onToggleFlatten}
             className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
@@ -87,11 +215,15 @@ const Header: React.FC<HeaderProps> = ({
           <button
             onClick={onOpenSettings}
             className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
-            aria-label={authState.isAuthenticated ? 'Authenticated' : 'Not authenticated'}
-            title={authState.isAuthenticated ? 'Authenticated' : 'Not authenticated'}
+            aria-label={authLabel}
+            title={authLabel}
           >
-            {authState.isAuthenticated ? (
+            {authState.status === 'valid' || authState.status === 'local' ? (
               <Unlock className="h-5 w-5 text-primary" />
+            ) : authState.status === 'unverified' ? (
+              <Unlock className="h-5 w-5 text-yellow-500" />
+            ) : authState.status === 'readOnly' ? (
+              <Lock className="h-5 w-5 text-yellow-500" />
             ) : (
               <Lock className="h-5 w-5 text-red-500" />
             )}
@@ -123,6 +255,24 @@ const Header: React.FC<HeaderProps> = ({
           >
             <Plus className={`h-5 w-5 ${authState.isAuthenticated ? 'text-secondary' : ''}`} />
           </button>
+          <button
+            onClick={onImport}
+            className={`p-2 rounded-full ${
+              authState.isAuthenticated
+                ? 'hover:bg-gray-200 dark:hover:bg-gray-700'
+                : 'text-gray-400 dark:text-gray-600 cursor-not-allowed'
+            } transition-colors`}
+            aria-label="Import bookmarks"
+            title={
+              authState.isAuthenticated
+                ? 'Import bookmarks'
+                : 'Authentication required to import bookmarks'
+            }
+          >
+            <Upload
+              className={`h-5 w-5 ${authState.isAuthenticated ? 'text-primary dark:text-primary-light' : ''}`}
+            />
+          </button>
           <button
             onClick={onOpenSettings}
             className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
@@ -0,0 +1,40 @@
+import React from 'react';
+
+interface HighlightedTextProps {
+  text: string;
+  words?: string[];
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Wraps every case-insensitive occurrence of the given words in <mark>
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, words }) => {
+  if (!words || words.length === 0 || !text) return <>{text}</>;
+
+  const pattern = new RegExp(
+    `(${[...words]
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join('|')})`,
+    'gi'
+  );
+
+  return (
+    <>
+      {text.split(pattern).map((part, index) =>
+        index % 2 === 1 ? (
+          <mark
+            key={index}
+            className="bg-yellow-200 dark:bg-yellow-600/50 text-inherit rounded-sm px-0.5 -mx-0.5"
+          >
+            {part}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{part}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
+
+export default HighlightedText;
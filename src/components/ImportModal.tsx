@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import {
+  X,
+  Upload,
+  Folder,
+  Bookmark,
+  Check,
+  AlertCircle,
+  MinusCircle,
+  Loader2,
+} from 'lucide-react';
+import { Folder as FolderType } from '../types';
+import {
+  ImportedNode,
+  parseNetscapeBookmarks,
+  countImportedNodes,
+} from '../services/netscapeBookmarks';
+import { StorageBackend } from '../services/storageBackend';
+import { useBookmarkImport, ImportItemStatus } from '../hooks/useBookmarkImport';
+import FolderOptions from './FolderOptions';
+
+interface ImportModalProps {
+  folders: FolderType[];
+  api: StorageBackend;
+  isAuthenticated: boolean;
+  onClose: () => void;
+  onImportComplete: () => void;
+}
+
+const statusIcon = (status: ImportItemStatus, isImporting: boolean) => {
+  switch (status) {
+    case 'success':
+      return <Check className="h-4 w-4 text-green-600 dark:text-green-400" />;
+    case 'error':
+      return <AlertCircle className="h-4 w-4 text-red-600 dark:text-red-400" />;
+    case 'skipped':
+      return <MinusCircle className="h-4 w-4 text-gray-400" />;
+    default:
+      return isImporting ? <Loader2 className="h-4 w-4 text-gray-400 animate-spin" /> : null;
+  }
+};
+
+const ImportModal: React.FC<ImportModalProps> = ({
+  folders,
+  api,
+  isAuthenticated,
+  onClose,
+  onImportComplete,
+}) => {
+  const [nodes, setNodes] = useState<ImportedNode[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [targetFolderId, setTargetFolderId] = useState<string | null>(null);
+  const { items, isImporting, isFinished, completed, failed, prepare, reset, runImport } =
+    useBookmarkImport(api, isAuthenticated);
+
+  const totals = countImportedNodes(nodes);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setParseError(null);
+
+    try {
+      const parsed = parseNetscapeBookmarks(await file.text());
+      if (parsed.length === 0) {
+        throw new Error('No bookmarks or folders were found in this file');
+      }
+      setNodes(parsed);
+      prepare(parsed);
+    } catch (err) {
+      setNodes([]);
+      reset();
+      setParseError(err instanceof Error ? err.message : 'Failed to read bookmarks file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (nodes.length === 0) return;
+    await runImport(nodes, targetFolderId);
+    onImportComplete();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg flex flex-col max-h-[90vh]">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold">Import Bookmarks</h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700"
+            aria-label="Close"
+            disabled={isImporting}
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <div>
+            <label
+              htmlFor="importFile"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Bookmarks file
+            </label>
+            <input
+              type="file"
+              id="importFile"
+              accept=".html,.htm,text/html"
+              onChange={handleFileChange}
+              disabled={isImporting || isFinished}
+              className="block w-full text-sm text-gray-700 dark:text-gray-300 file:mr-3 file:px-3 file:py-2 file:rounded-md file:border-0 file:bg-blue-100 dark:file:bg-blue-900 file:text-blue-700 dark:file:text-blue-300"
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Use the HTML file produced by your browser's "Export bookmarks" option.
+            </p>
+            {parseError && (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">{parseError}</p>
+            )}
+          </div>
+
+          {nodes.length > 0 && (
+            <>
+              <div>
+                <label
+                  htmlFor="importTarget"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                >
+                  Import into
+                </label>
+                <select
+                  id="importTarget"
+                  value={targetFolderId || ''}
+                  onChange={e => setTargetFolderId(e.target.value || null)}
+                  disabled={isImporting || isFinished}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-xs focus:outline-hidden focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700"
+                >
+                  <option value="">No Parent (Root Folder)</option>
+                  <FolderOptions folders={folders} />
+                </select>
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between text-sm mb-2">
+                  <span className="font-medium truncate">{fileName}</span>
+                  <span className="text-gray-500 dark:text-gray-400 shrink-0 ml-2">
+                    {totals.folders} folders, {totals.bookmarks} bookmarks
+                  </span>
+                </div>
+
+                {(isImporting || isFinished) && (
+                  <div className="mb-2">
+                    <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-blue-600 transition-all"
+                        style={{ width: `${(completed / items.length) * 100}%` }}
+                      />
+                    </div>
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                      {isFinished
+                        ? `Imported ${completed - failed} of ${items.length} items${
+                            failed > 0 ? `, ${failed} failed` : ''
+                          }`
+                        : `Importing ${completed} of ${items.length}…`}
+                    </p>
+                  </div>
+                )}
+
+                <ul className="max-h-64 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-md divide-y divide-gray-100 dark:divide-gray-700 text-sm">
+                  {items.map(item => (
+                    <li
+                      key={item.key}
+                      className="flex items-center px-2 py-1"
+                      style={{ paddingLeft: `${0.5 + item.depth}rem` }}
+                      title={item.error}
+                    >
+                      {item.kind === 'folder' ? (
+                        <Folder className="h-4 w-4 mr-2 text-primary shrink-0" />
+                      ) : (
+                        <Bookmark className="h-4 w-4 mr-2 text-gray-400 shrink-0" />
+                      )}
+                      <span className="flex-1 truncate">{item.label}</span>
+                      {item.error && (
+                        <span className="ml-2 text-xs text-red-600 dark:text-red-400 truncate max-w-[40%]">
+                          {item.error}
+                        </span>
+                      )}
+                      <span className="ml-2 shrink-0">{statusIcon(item.status, isImporting)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end space-x-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600"
+            disabled={isImporting}
+          >
+            {isFinished ? 'Close' : 'Cancel'}
+          </button>
+          {!isFinished && (
+            <button
+              onClick={handleImport}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center disabled:opacity-50"
+              disabled={nodes.length === 0 || isImporting}
+            >
+              {isImporting ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <Upload className="h-4 w-4 mr-1" />
+              )}
+              Import
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportModal;
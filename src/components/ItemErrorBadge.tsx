@@ -0,0 +1,25 @@
+import React from 'react';
+import { AlertCircle } from 'lucide-react';
+
+interface ItemErrorBadgeProps {
+  message: string;
+  onDismiss: () => void;
+  className?: string;
+}
+
+// Marks a bookmark or folder whose last change the server rejected; clicking dismisses it
+const ItemErrorBadge: React.FC<ItemErrorBadgeProps> = ({ message, onDismiss, className = '' }) => (
+  <button
+    onClick={e => {
+      e.stopPropagation();
+      onDismiss();
+    }}
+    className={`p-0.5 rounded-full text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/40 cursor-pointer ${className}`}
+    aria-label={`Change not saved: ${message}. Dismiss`}
+    title={`Change not saved: ${message}`}
+  >
+    <AlertCircle className="h-4 w-4" />
+  </button>
+);
+
+export default ItemErrorBadge;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { Link2Off, CornerDownRight } from 'lucide-react';
+import { Bookmark, LinkCheck } from '../types';
+import { getLinkHealth, describeLinkCheck } from '../services/linkHealth';
+
+interface LinkHealthBadgeProps {
+  bookmark: Bookmark;
+  check?: LinkCheck;
+  className?: string;
+}
+
+// Shown on bookmarks whose last link check failed or ended up at another URL
+const LinkHealthBadge: React.FC<LinkHealthBadgeProps> = ({ bookmark, check, className = '' }) => {
+  const health = getLinkHealth(bookmark, check);
+  if (!check || (health !== 'broken' && health !== 'redirected')) return null;
+
+  const isBroken = health === 'broken';
+  return (
+    <span
+      className={`inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium ${
+        isBroken
+          ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300'
+          : 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300'
+      } ${className}`}
+      title={describeLinkCheck(check)}
+    >
+      {isBroken ? (
+        <Link2Off className="h-3 w-3 mr-1" aria-hidden="true" />
+      ) : (
+        <CornerDownRight className="h-3 w-3 mr-1" aria-hidden="true" />
+      )}
+      {isBroken ? (check.status ? check.status : 'Unreachable') : 'Redirects'}
+    </span>
+  );
+};
+
+export default LinkHealthBadge;
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Upload } from 'lucide-react';
+import { ApiProfile } from '../types';
+import { localBackend } from '../services/localBackend';
+import { createStorageBackend } from '../services/storageBackend';
+import { copyBackendData, MigrationProgress, MigrationResult } from '../services/backendMigration';
+
+interface LocalDataMigrationProps {
+  // API profiles the browser-only bookmarks can be copied into
+  profiles: ApiProfile[];
+  onUseProfile: (profileId: string) => void;
+}
+
+const LocalDataMigration: React.FC<LocalDataMigrationProps> = ({ profiles, onUseProfile }) => {
+  const [targetId, setTargetId] = useState(profiles[0]?.id ?? '');
+  const [progress, setProgress] = useState<MigrationProgress | null>(null);
+  const [outcome, setOutcome] = useState<{ profileId: string; result: MigrationResult } | null>(
+    null
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const target = profiles.find(profile => profile.id === targetId) || profiles[0];
+  const isCopying = progress !== null;
+
+  if (!target) {
+    return (
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        To move these bookmarks into an account later, add a profile with an API key.
+      </p>
+    );
+  }
+
+  const handleCopy = async () => {
+    setError(null);
+    setOutcome(null);
+    setProgress({ done: 0, total: 0 });
+    try {
+      const result = await copyBackendData(localBackend, createStorageBackend(target), setProgress);
+      setOutcome({ profileId: target.id, result });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the bookmarks to copy');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <label htmlFor="migrationTarget" className="block text-sm font-medium">
+        Copy to an account
+      </label>
+      <div className="flex items-center gap-2">
+        <select
+          id="migrationTarget"
+          value={target.id}
+          onChange={e => setTargetId(e.target.value)}
+          disabled={isCopying}
+          className="flex-1 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700"
+        >
+          {profiles.map(profile => (
+            <option key={profile.id} value={profile.id}>
+              {profile.label || 'Untitled'}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleCopy}
+          disabled={isCopying}
+          className="flex items-center px-3 py-1.5 text-sm rounded bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Upload className="h-4 w-4 mr-1" />
+          {isCopying ? `Copying ${progress.done}/${progress.total}…` : 'Copy'}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      {outcome && (
+        <div
+          className={`text-sm ${
+            outcome.result.failed > 0
+              ? 'text-yellow-600 dark:text-yellow-400'
+              : 'text-green-600 dark:text-green-400'
+          }`}
+        >
+          <p>
+            Copied {outcome.result.bookmarks} bookmarks and {outcome.result.folders} folders
+            {outcome.result.skipped > 0 && `; ${outcome.result.skipped} were already there`}
+            {outcome.result.failed > 0 && `; ${outcome.result.failed} could not be copied`}. The
+            copies in this browser were kept.
+          </p>
+          <button
+            onClick={() => onUseProfile(outcome.profileId)}
+            className="mt-1 underline hover:no-underline"
+          >
+            Switch to that profile
+          </button>
+        </div>
+      )}
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Folders are recreated in the account and the bookmarks are filed into them. Links the
+        account already has are left out, so copying again only adds what is new.
+      </p>
+    </div>
+  );
+};
+
+export default LocalDataMigration;
@@ -8,27 +8,76 @@ import {
   Check,
   X,
   Share2,
+  Download,
 } from 'lucide-react';
-import { Bookmark, AppConfig, Folder } from '../types.d.ts';
+import { Bookmark, AppConfig, AuthStatus, Folder, LinkCheck, SortOrder } from '../types.d.ts';
 import BookmarkCard from './BookmarkCard';
 import BookmarkList from './BookmarkList';
 import AuthWarning from './AuthWarning';
+import SelectionToolbar from './SelectionToolbar';
+import BrokenLinksPanel from './BrokenLinksPanel';
+import DuplicatesView from './DuplicatesView';
+import TagFilterBar from './TagFilterBar';
 import { useFolderEditing } from '../hooks/useFolderEditing';
+import { useBookmarkSelection } from '../hooks/useBookmarkSelection';
+import { useVirtualRows } from '../hooks/useVirtualRows';
+import { useGridColumns } from '../hooks/useGridColumns';
+import { useScrollRestoration } from '../hooks/useScrollRestoration';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
+import { BulkResult } from '../hooks/useBookmarks';
+import { LinkCheckProgress } from '../hooks/useLinkChecks';
+import { SORT_OPTIONS } from '../services/bookmarkSort';
+import { isSpecialFolder } from '../services/specialFolders';
+import { DuplicateGroup } from '../services/duplicates';
+import { BookmarkFilter, TagMatchMode, describeFilter } from '../services/bookmarkFilter';
 
 interface MainContentProps {
   config: AppConfig;
   isAuthenticated: boolean;
+  authStatus: AuthStatus;
   isLoading: boolean;
-  error: string | null;
-  selectedFolder: string | null;
-  selectedTag: string | null;
+  filter: BookmarkFilter;
+  onToggleTag: (tag: string) => void;
+  onChangeTagMode: (mode: TagMatchMode) => void;
+  onClearTags: () => void;
   folders: Folder[];
   filteredBookmarks: Bookmark[];
+  // The bookmark under the keyboard cursor
+  cursorId: string | null;
+  allTags: string[];
+  // Set while only some of the bookmarks are loaded, so allTags may be missing some
+  areTagsPartial: boolean;
+  highlights: Record<string, string[]> | null;
+  bookmarkErrors: Record<string, string>;
+  onDismissBookmarkError: (id: string) => void;
+  linkChecks: Record<string, LinkCheck>;
+  linkCheckProgress: LinkCheckProgress | null;
+  onCheckLinks: () => void;
+  onStopLinkCheck: () => void;
+  // Set while the Duplicates view is shown, which lists these instead of the bookmarks
+  duplicateGroups: DuplicateGroup[] | null;
+  onMergeDuplicates: (
+    group: Bookmark[],
+    keepId: string,
+    folderId: string | null
+  ) => Promise<boolean>;
+  getFolderPathName: (folderId: string | null) => string;
   folderPath: string;
+  isSortedByRelevance: boolean;
+  // Set when the bookmarks are loaded from the server a page at a time
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
   onToggleView: (view: 'grid' | 'list') => void;
+  onChangeSort: (sortOrder: SortOrder) => void;
   onBookmarkClick: (bookmark: Bookmark) => void;
   onToggleFavorite: (id: string) => void;
+  onMoveBookmark: (id: string, folderId: string | null) => void;
+  onAddTag: (id: string, tag: string) => void;
+  onBulkUpdate: (ids: string[], update: (bookmark: Bookmark) => Bookmark) => Promise<BulkResult>;
+  onBulkDelete: (ids: string[]) => Promise<BulkResult>;
   onOpenSettings: () => void;
+  onExport: () => void;
   onAddFolder: (parentId: string | null) => void;
   onSelectFolder: (folderId: string | null) => void;
   onUpdateFolder: (folderId: string, newName: string) => void;
@@ -37,17 +86,42 @@ interface MainContentProps {
 const MainContent: React.FC<MainContentProps> = ({
   config,
   isAuthenticated,
+  authStatus,
   isLoading,
-  error,
-  selectedFolder,
-  selectedTag,
+  filter,
+  onToggleTag,
+  onChangeTagMode,
+  onClearTags,
   folders,
   filteredBookmarks,
+  cursorId,
+  allTags,
+  areTagsPartial,
+  highlights,
+  bookmarkErrors,
+  onDismissBookmarkError,
+  linkChecks,
+  linkCheckProgress,
+  onCheckLinks,
+  onStopLinkCheck,
+  duplicateGroups,
+  onMergeDuplicates,
+  getFolderPathName,
   folderPath,
+  isSortedByRelevance,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore = () => {},
   onToggleView,
+  onChangeSort,
   onBookmarkClick,
   onToggleFavorite,
+  onMoveBookmark,
+  onAddTag,
+  onBulkUpdate,
+  onBulkDelete,
   onOpenSettings,
+  onExport,
   onAddFolder,
   onSelectFolder,
   onUpdateFolder,
@@ -62,16 +136,50 @@ const MainContent: React.FC<MainContentProps> = ({
     handleKeyDown,
   } = useFolderEditing(isAuthenticated, onUpdateFolder);
   const [showShareTooltip, setShowShareTooltip] = useState(false);
+  const { selectedIds, selectedBookmarks, isSelected, select, selectAll, clearSelection } =
+    useBookmarkSelection(filteredBookmarks);
+  const allSelected =
+    filteredBookmarks.length > 0 && selectedIds.length === filteredBookmarks.length;
 
+  const { folder: selectedFolder, tags: selectedTags, tagMode } = filter;
+  const hasTagFilter = selectedTags.length > 0;
   const subfolders = folders.filter(folder => folder.parentId === selectedFolder);
 
+  const [scrollElement, setScrollElement] = useState<HTMLElement | null>(null);
+  useScrollRestoration(scrollElement, describeFilter(filter));
+
+  const setLoadMoreSentinel = useInfiniteScroll(
+    scrollElement,
+    onLoadMore,
+    hasMore && !isLoading,
+    filteredBookmarks.length
+  );
+
+  // The grid is virtualized a row of cards at a time
+  const columns = useGridColumns();
+  const gridRows: Bookmark[][] = [];
+  if (config.viewMode === 'grid') {
+    for (let index = 0; index < filteredBookmarks.length; index += columns) {
+      gridRows.push(filteredBookmarks.slice(index, index + columns));
+    }
+  }
+  const gridRowKeys = gridRows.map(row => row.map(bookmark => bookmark.id).join(' '));
+  const cursorRow = gridRows.findIndex(row => row.some(bookmark => bookmark.id === cursorId));
+  const {
+    items: gridItems,
+    measureRow: measureGridRow,
+    setListElement: setGridElement,
+    containerProps: gridContainerProps,
+  } = useVirtualRows({
+    scrollElement,
+    rowKeys: gridRowKeys,
+    estimatedRowHeight: 320,
+    activeKey: cursorRow === -1 ? null : gridRowKeys[cursorRow],
+  });
+
   const handleShare = async () => {
+    // The address already holds the folder and tags being viewed
     const url = new URL(window.location.href);
-    if (selectedTag) {
-      url.searchParams.set('tag', selectedTag);
-    } else if (selectedFolder) {
-      url.searchParams.set('folder', selectedFolder);
-    }
 
     try {
       if (navigator.share) {
@@ -101,7 +209,7 @@ const MainContent: React.FC<MainContentProps> = ({
   };
 
   return (
-    <main className="flex-1 min-w-0 overflow-y-auto">
+    <main ref={setScrollElement} className="flex-1 min-w-0 overflow-y-auto">
       <div className="container mx-auto p-4">
         <div className="flex items-center justify-between mb-4">
           <div className="flex items-center space-x-2">
@@ -123,20 +231,40 @@ const MainContent: React.FC<MainContentProps> = ({
                 </div>
               )}
             </div>
+            <button
+              onClick={onExport}
+              className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+              aria-label="Export bookmarks"
+              title="Export bookmarks"
+            >
+              <Download className="h-5 w-5" />
+            </button>
           </div>
           <div className="flex items-center space-x-2">
-            {selectedFolder !== 'all' &&
-              selectedFolder !== 'favorites' &&
-              !selectedTag &&
-              isAuthenticated && (
-                <button
-                  onClick={() => onAddFolder(selectedFolder)}
-                  className="p-2 rounded-sm hover:bg-gray-200 dark:hover:bg-gray-700 cursor-pointer"
-                  aria-label="Add subfolder"
-                >
-                  <FolderPlus className="h-5 w-5" />
-                </button>
-              )}
+            {!isSpecialFolder(selectedFolder) && !hasTagFilter && isAuthenticated && (
+              <button
+                onClick={() => onAddFolder(selectedFolder)}
+                className="p-2 rounded-sm hover:bg-gray-200 dark:hover:bg-gray-700 cursor-pointer"
+                aria-label="Add subfolder"
+              >
+                <FolderPlus className="h-5 w-5" />
+              </button>
+            )}
+            <select
+              value={isSortedByRelevance ? 'relevance' : config.sortOrder}
+              onChange={e => onChangeSort(e.target.value as SortOrder)}
+              disabled={isSortedByRelevance}
+              className="px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 disabled:opacity-60"
+              aria-label="Sort bookmarks"
+              title={isSortedByRelevance ? 'Search results are sorted by relevance' : 'Sort by'}
+            >
+              {isSortedByRelevance && <option value="relevance">Relevance</option>}
+              {SORT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
             <button
               onClick={() => onToggleView('grid')}
               className={`p-2 rounded-sm cursor-pointer ${config.viewMode === 'grid' ? 'bg-blue-100 dark:bg-blue-900 text-blue-600 dark:text-blue-400' : 'hover:bg-gray-200 dark:hover:bg-gray-700'}`}
@@ -154,21 +282,67 @@ const MainContent: React.FC<MainContentProps> = ({
           </div>
         </div>
 
-        {!isAuthenticated && <AuthWarning onOpenSettings={onOpenSettings} />}
+        {hasTagFilter && (
+          <TagFilterBar
+            tags={selectedTags}
+            mode={tagMode}
+            onRemoveTag={onToggleTag}
+            onChangeMode={onChangeTagMode}
+            onClear={onClearTags}
+          />
+        )}
 
-        {error && (
-          <div className="mb-4 px-4 py-3 rounded-md bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 text-sm">
-            {error}
-          </div>
+        {!isAuthenticated && (
+          <AuthWarning authStatus={authStatus} onOpenSettings={onOpenSettings} />
+        )}
+
+        {selectedFolder === 'broken-links' && (
+          <BrokenLinksPanel
+            bookmarks={filteredBookmarks}
+            selectedBookmarks={selectedBookmarks}
+            linkChecks={linkChecks}
+            progress={linkCheckProgress}
+            isConfigured={!!config.linkCheckUrl.trim()}
+            isAuthenticated={isAuthenticated}
+            onCheckLinks={onCheckLinks}
+            onStopChecking={onStopLinkCheck}
+            onBulkUpdate={onBulkUpdate}
+            onBulkDelete={onBulkDelete}
+            onOpenSettings={onOpenSettings}
+          />
+        )}
+
+        {selectedIds.length > 0 && (
+          <SelectionToolbar
+            selectedBookmarks={selectedBookmarks}
+            visibleCount={filteredBookmarks.length}
+            folders={folders}
+            allTags={allTags}
+            areTagsPartial={areTagsPartial}
+            isAuthenticated={isAuthenticated}
+            onSelectAll={selectAll}
+            onClearSelection={clearSelection}
+            onBulkUpdate={onBulkUpdate}
+            onBulkDelete={onBulkDelete}
+          />
         )}
 
         {isLoading ? (
           <div className="flex flex-col items-center justify-center h-64 text-gray-500 dark:text-gray-400">
             <p className="text-lg">Loading bookmarks…</p>
           </div>
+        ) : duplicateGroups ? (
+          <DuplicatesView
+            groups={duplicateGroups}
+            folders={folders}
+            getFolderPathName={getFolderPathName}
+            isAuthenticated={isAuthenticated}
+            onBookmarkClick={onBookmarkClick}
+            onMerge={onMergeDuplicates}
+          />
         ) : (
           <>
-            {!config.flattenSubfolders && subfolders.length > 0 && !selectedTag && (
+            {!config.flattenSubfolders && subfolders.length > 0 && !hasTagFilter && (
               <div className="mb-6">
                 <h3 className="text-lg font-medium mb-3">Subfolders</h3>
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -241,36 +415,91 @@ const MainContent: React.FC<MainContentProps> = ({
                 {filteredBookmarks.length > 0 && (
                   <div
                     className={
-                      !config.flattenSubfolders && subfolders.length > 0 && !selectedTag
+                      !config.flattenSubfolders && subfolders.length > 0 && !hasTagFilter
                         ? 'mt-6'
                         : ''
                     }
                   >
-                    {!config.flattenSubfolders && subfolders.length > 0 && !selectedTag && (
+                    {!config.flattenSubfolders && subfolders.length > 0 && !hasTagFilter && (
                       <h3 className="text-lg font-medium mb-3">Bookmarks</h3>
                     )}
                     {config.viewMode === 'grid' ? (
-                      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-                        {filteredBookmarks.map(bookmark => (
-                          <BookmarkCard
-                            key={bookmark.id}
-                            bookmark={bookmark}
-                            onClick={() => onBookmarkClick(bookmark)}
-                            onToggleFavorite={() => onToggleFavorite(bookmark.id)}
-                            isAuthenticated={isAuthenticated}
-                          />
-                        ))}
+                      <div ref={setGridElement} {...gridContainerProps}>
+                        {gridItems.map(item =>
+                          item.type === 'spacer' ? (
+                            <div
+                              key={item.key}
+                              style={{ height: item.height }}
+                              aria-hidden="true"
+                            />
+                          ) : (
+                            <div
+                              key={item.key}
+                              ref={measureGridRow}
+                              data-virtual-key={item.key}
+                              className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 pb-4"
+                            >
+                              {gridRows[item.index].map(bookmark => (
+                                <BookmarkCard
+                                  key={bookmark.id}
+                                  bookmark={bookmark}
+                                  highlightWords={highlights?.[bookmark.id]}
+                                  saveError={bookmarkErrors[bookmark.id]}
+                                  onDismissSaveError={() => onDismissBookmarkError(bookmark.id)}
+                                  linkCheck={linkChecks[bookmark.id]}
+                                  folders={folders}
+                                  tags={allTags}
+                                  areTagsPartial={areTagsPartial}
+                                  onClick={() => onBookmarkClick(bookmark)}
+                                  onToggleFavorite={() => onToggleFavorite(bookmark.id)}
+                                  onMoveToFolder={folderId => onMoveBookmark(bookmark.id, folderId)}
+                                  onAddTag={tag => onAddTag(bookmark.id, tag)}
+                                  isSelected={isSelected(bookmark.id)}
+                                  isCursor={bookmark.id === cursorId}
+                                  isSelectionActive={selectedIds.length > 0}
+                                  onSelect={modifiers => select(bookmark.id, modifiers)}
+                                  isAuthenticated={isAuthenticated}
+                                />
+                              ))}
+                            </div>
+                          )
+                        )}
                       </div>
                     ) : (
                       <BookmarkList
+                        scrollElement={scrollElement}
                         bookmarks={filteredBookmarks}
+                        highlights={highlights}
+                        saveErrors={bookmarkErrors}
+                        onDismissSaveError={onDismissBookmarkError}
+                        linkChecks={linkChecks}
+                        folders={folders}
+                        tags={allTags}
+                        areTagsPartial={areTagsPartial}
                         onBookmarkClick={onBookmarkClick}
                         onToggleFavorite={onToggleFavorite}
+                        onMoveToFolder={onMoveBookmark}
+                        onAddTag={onAddTag}
+                        isSelected={isSelected}
+                        cursorId={cursorId}
+                        onSelect={select}
+                        sortOrder={isSortedByRelevance ? null : config.sortOrder}
+                        onChangeSort={onChangeSort}
+                        allSelected={allSelected}
+                        onToggleSelectAll={allSelected ? clearSelection : selectAll}
                         isAuthenticated={isAuthenticated}
                       />
                     )}
                   </div>
                 )}
+                {hasMore && (
+                  <div
+                    ref={setLoadMoreSentinel}
+                    className="py-6 text-center text-sm text-gray-500 dark:text-gray-400"
+                  >
+                    {isLoadingMore ? 'Loading more…' : ''}
+                  </div>
+                )}
               </>
             )}
           </>
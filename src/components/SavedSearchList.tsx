@@ -0,0 +1,153 @@
+import React from 'react';
+import { Edit2, Check, X, ArrowUp, ArrowDown, Trash2 } from 'lucide-react';
+import { SavedSearch } from '../services/savedSearches';
+import { useFolderEditing } from '../hooks/useFolderEditing';
+
+interface SavedSearchListProps {
+  searches: SavedSearch[];
+  counts: Record<string, number>;
+  showCounts: boolean;
+  activeId: string | null;
+  onSelect: (search: SavedSearch) => void;
+  onRename: (id: string, name: string) => void;
+  onReorder: (id: string, offset: number) => void;
+  onDelete: (id: string) => void;
+}
+
+// The smart folders section of the sidebar. Smart folders only store a search, so they can
+// be changed even in read-only mode.
+const SavedSearchList: React.FC<SavedSearchListProps> = ({
+  searches,
+  counts,
+  showCounts,
+  activeId,
+  onSelect,
+  onRename,
+  onReorder,
+  onDelete,
+}) => {
+  const {
+    editingFolderId: editingId,
+    editingFolderName: editingName,
+    setEditingFolderName: setEditingName,
+    startEditing,
+    saveEditing,
+    cancelEditing,
+    handleKeyDown,
+  } = useFolderEditing(true, onRename);
+
+  if (searches.length === 0) {
+    return (
+      <p className="px-2 text-xs text-gray-500 dark:text-gray-400">
+        Search or pick tags, then save them here with +.
+      </p>
+    );
+  }
+
+  const actionClass = 'p-1 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-full cursor-pointer';
+
+  return (
+    <div className="space-y-1">
+      {searches.map((search, index) => {
+        const isEditing = editingId === search.id;
+        return (
+          <div
+            key={search.id}
+            className={`group flex items-center p-2 rounded-md cursor-pointer ${
+              activeId === search.id
+                ? 'bg-primary/10 dark:bg-primary/20 text-primary-dark dark:text-primary-light'
+                : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+            }`}
+            onClick={() => !isEditing && onSelect(search)}
+            title={search.search || undefined}
+          >
+            {isEditing ? (
+              <div className="flex items-center w-full">
+                <input
+                  type="text"
+                  value={editingName}
+                  onChange={e => setEditingName(e.target.value)}
+                  onKeyDown={handleKeyDown}
+                  className="min-w-0 flex-1 px-2 py-1 bg-white dark:bg-gray-700 border border-primary rounded-sm focus:outline-hidden focus:ring-2 focus:ring-primary"
+                  aria-label="Smart folder name"
+                  autoFocus
+                  onClick={e => e.stopPropagation()}
+                />
+                <button
+                  onClick={saveEditing}
+                  className="p-1 ml-1 hover:bg-primary/20 dark:hover:bg-primary/30 rounded-full cursor-pointer"
+                  aria-label="Save name"
+                >
+                  <Check className="h-4 w-4 text-primary dark:text-primary-light" />
+                </button>
+                <button
+                  onClick={cancelEditing}
+                  className="p-1 hover:bg-red-200 dark:hover:bg-red-800 rounded-full cursor-pointer"
+                  aria-label="Cancel renaming"
+                >
+                  <X className="h-4 w-4 text-red-600 dark:text-red-400" />
+                </button>
+              </div>
+            ) : (
+              <>
+                <span className="flex-1 truncate">{search.name}</span>
+                <div className="flex items-center opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                  <button
+                    onClick={e => startEditing(search, e)}
+                    className={actionClass}
+                    aria-label="Rename smart folder"
+                    title="Rename"
+                  >
+                    <Edit2 className="h-4 w-4 text-gray-500" />
+                  </button>
+                  <button
+                    onClick={e => {
+                      e.stopPropagation();
+                      onReorder(search.id, -1);
+                    }}
+                    disabled={index === 0}
+                    className={`${actionClass} disabled:opacity-40`}
+                    aria-label="Move smart folder up"
+                    title="Move up"
+                  >
+                    <ArrowUp className="h-4 w-4 text-gray-500" />
+                  </button>
+                  <button
+                    onClick={e => {
+                      e.stopPropagation();
+                      onReorder(search.id, 1);
+                    }}
+                    disabled={index === searches.length - 1}
+                    className={`${actionClass} disabled:opacity-40`}
+                    aria-label="Move smart folder down"
+                    title="Move down"
+                  >
+                    <ArrowDown className="h-4 w-4 text-gray-500" />
+                  </button>
+                  <button
+                    onClick={e => {
+                      e.stopPropagation();
+                      onDelete(search.id);
+                    }}
+                    className="p-1 hover:bg-red-100 dark:hover:bg-red-900/30 rounded-full cursor-pointer"
+                    aria-label="Delete smart folder"
+                    title="Delete"
+                  >
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </button>
+                </div>
+                {showCounts && (
+                  <span className="ml-2 text-xs bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-300 px-2 py-1 rounded-full">
+                    {counts[search.id] ?? 0}
+                  </span>
+                )}
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SavedSearchList;
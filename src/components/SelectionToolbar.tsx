@@ -0,0 +1,272 @@
+import React, { useState } from 'react';
+import { X, Star, StarOff, ExternalLink, Trash2, Tag, CheckSquare, Loader2 } from 'lucide-react';
+import { Bookmark, Folder } from '../types';
+import { BulkResult } from '../hooks/useBookmarks';
+import FolderOptions from './FolderOptions';
+
+interface SelectionToolbarProps {
+  selectedBookmarks: Bookmark[];
+  visibleCount: number;
+  folders: Folder[];
+  allTags: string[];
+  // Set while only some of the bookmarks are loaded, so allTags may be missing some
+  areTagsPartial: boolean;
+  isAuthenticated: boolean;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onBulkUpdate: (ids: string[], update: (bookmark: Bookmark) => Bookmark) => Promise<BulkResult>;
+  onBulkDelete: (ids: string[]) => Promise<BulkResult>;
+}
+
+const SelectionToolbar: React.FC<SelectionToolbarProps> = ({
+  selectedBookmarks,
+  visibleCount,
+  folders,
+  allTags,
+  areTagsPartial,
+  isAuthenticated,
+  onSelectAll,
+  onClearSelection,
+  onBulkUpdate,
+  onBulkDelete,
+}) => {
+  const [isRunning, setIsRunning] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [tagInput, setTagInput] = useState('');
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [showLinks, setShowLinks] = useState(false);
+
+  const ids = selectedBookmarks.map(b => b.id);
+  const links = selectedBookmarks.filter(b => b.url);
+  const selectionTags = Array.from(new Set(selectedBookmarks.flatMap(b => b.tags))).sort((a, b) =>
+    a.localeCompare(b)
+  );
+
+  const run = async (label: string, action: () => Promise<BulkResult>) => {
+    setIsRunning(true);
+    setStatus(null);
+    try {
+      const { succeeded, failed } = await action();
+      setStatus(
+        failed.length > 0
+          ? `${label} ${succeeded.length} bookmarks, ${failed.length} failed`
+          : `${label} ${succeeded.length} bookmarks`
+      );
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleMove = (folderId: string | null) =>
+    run('Moved', () => onBulkUpdate(ids, b => ({ ...b, folderId })));
+
+  const handleAddTag = () => {
+    const tag = tagInput.trim();
+    if (!tag) return;
+    setTagInput('');
+    run('Tagged', () =>
+      onBulkUpdate(ids, b => (b.tags.includes(tag) ? b : { ...b, tags: [...b.tags, tag] }))
+    );
+  };
+
+  const handleRemoveTag = (tag: string) =>
+    run('Untagged', () => onBulkUpdate(ids, b => ({ ...b, tags: b.tags.filter(t => t !== tag) })));
+
+  const handleFavorite = (favorite: boolean) =>
+    run(favorite ? 'Favorited' : 'Unfavorited', () => onBulkUpdate(ids, b => ({ ...b, favorite })));
+
+  // Popup blockers let a click open only one tab, so several links are listed to be opened
+  // one by one instead
+  const handleOpenAll = () => {
+    if (links.length === 1) {
+      window.open(links[0].url, '_blank', 'noopener,noreferrer');
+    } else {
+      setShowLinks(prev => !prev);
+    }
+  };
+
+  const handleDelete = () => {
+    setConfirmDelete(false);
+    run('Deleted', () => onBulkDelete(ids));
+  };
+
+  const buttonClass =
+    'p-2 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50 cursor-pointer';
+  const selectClass =
+    'px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 disabled:opacity-50';
+
+  return (
+    <div className="sticky top-0 z-10 mb-4 p-2 flex flex-wrap items-center gap-2 bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-800 rounded-md text-sm">
+      <button onClick={onClearSelection} className={buttonClass} aria-label="Clear selection">
+        <X className="h-4 w-4" />
+      </button>
+      <span className="font-medium mr-2">{ids.length} selected</span>
+      {ids.length < visibleCount && (
+        <button onClick={onSelectAll} className={`${buttonClass} flex items-center`}>
+          <CheckSquare className="h-4 w-4 mr-1" />
+          Select all {visibleCount}
+        </button>
+      )}
+
+      <button
+        onClick={handleOpenAll}
+        className={buttonClass}
+        aria-label="Open selected in new tabs"
+        aria-expanded={links.length > 1 ? showLinks : undefined}
+        title="Open all"
+      >
+        <ExternalLink className="h-4 w-4" />
+      </button>
+
+      {isAuthenticated && (
+        <>
+          <select
+            aria-label="Move selected to folder"
+            value="__none"
+            onChange={e => handleMove(e.target.value || null)}
+            disabled={isRunning}
+            className={selectClass}
+          >
+            <option value="__none" disabled>
+              Move to…
+            </option>
+            <option value="">No Folder</option>
+            <FolderOptions folders={folders} />
+          </select>
+
+          <div className="flex items-center">
+            <input
+              type="text"
+              list="selection-tag-suggestions"
+              value={tagInput}
+              onChange={e => setTagInput(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleAddTag();
+                }
+              }}
+              placeholder="Add tag"
+              aria-label="Tag to add to selected bookmarks"
+              title={
+                areTagsPartial ? 'Suggestions come from the bookmarks loaded so far' : undefined
+              }
+              disabled={isRunning}
+              className={`${selectClass} w-28 rounded-r-none`}
+            />
+            <datalist id="selection-tag-suggestions">
+              {allTags.map(tag => (
+                <option key={tag} value={tag} />
+              ))}
+            </datalist>
+            <button
+              onClick={handleAddTag}
+              disabled={isRunning || !tagInput.trim()}
+              className="px-2 py-1 border border-l-0 border-gray-300 dark:border-gray-600 rounded-r-md hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50"
+              aria-label="Add tag to selected bookmarks"
+            >
+              <Tag className="h-4 w-4" />
+            </button>
+          </div>
+
+          {selectionTags.length > 0 && (
+            <select
+              aria-label="Remove tag from selected bookmarks"
+              value="__none"
+              onChange={e => handleRemoveTag(e.target.value)}
+              disabled={isRunning}
+              className={selectClass}
+            >
+              <option value="__none" disabled>
+                Remove tag…
+              </option>
+              {selectionTags.map(tag => (
+                <option key={tag} value={tag}>
+                  {tag}
+                </option>
+              ))}
+            </select>
+          )}
+
+          <button
+            onClick={() => handleFavorite(true)}
+            disabled={isRunning}
+            className={buttonClass}
+            aria-label="Add selected to favorites"
+            title="Add to favorites"
+          >
+            <Star className="h-4 w-4 text-yellow-500" />
+          </button>
+          <button
+            onClick={() => handleFavorite(false)}
+            disabled={isRunning}
+            className={buttonClass}
+            aria-label="Remove selected from favorites"
+            title="Remove from favorites"
+          >
+            <StarOff className="h-4 w-4" />
+          </button>
+          {confirmDelete ? (
+            <div className="flex items-center gap-1">
+              <span className="text-red-700 dark:text-red-400">Delete {ids.length}?</span>
+              <button
+                onClick={handleDelete}
+                className="px-2 py-1 bg-red-600 text-white rounded-md hover:bg-red-700"
+              >
+                Delete
+              </button>
+              <button
+                onClick={() => setConfirmDelete(false)}
+                className="px-2 py-1 bg-gray-200 dark:bg-gray-700 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600"
+              >
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={() => setConfirmDelete(true)}
+              disabled={isRunning}
+              className={buttonClass}
+              aria-label="Delete selected"
+              title="Delete"
+            >
+              <Trash2 className="h-4 w-4 text-red-600 dark:text-red-400" />
+            </button>
+          )}
+        </>
+      )}
+
+      {isRunning && <Loader2 className="h-4 w-4 animate-spin text-gray-500" />}
+      {status && !isRunning && (
+        <span className="text-gray-600 dark:text-gray-300" role="status">
+          {status}
+        </span>
+      )}
+
+      {showLinks && links.length > 1 && (
+        <div className="basis-full">
+          <p className="text-gray-600 dark:text-gray-300">
+            Browsers block opening {links.length} tabs at once, so open the links one by one:
+          </p>
+          <ul className="mt-1 max-h-48 overflow-y-auto space-y-0.5">
+            {links.map(b => (
+              <li key={b.id}>
+                <a
+                  href={b.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 text-primary hover:underline"
+                >
+                  <ExternalLink className="h-3 w-3 shrink-0" />
+                  {b.title || b.url}
+                </a>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SelectionToolbar;
@@ -0,0 +1,96 @@
+import React, { useEffect } from 'react';
+import { X, Keyboard } from 'lucide-react';
+import { Shortcuts } from '../types';
+import { SHORTCUT_ACTIONS } from '../services/shortcuts';
+
+interface ShortcutHelpProps {
+  shortcuts: Shortcuts;
+  onOpenSettings: () => void;
+  onClose: () => void;
+}
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+};
+
+// Lists the keyboard shortcuts with the keys they are currently bound to
+const ShortcutHelp: React.FC<ShortcutHelpProps> = ({ shortcuts, onOpenSettings, onClose }) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcutHelpTitle"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 id="shortcutHelpTitle" className="text-xl font-semibold flex items-center">
+            <Keyboard className="h-5 w-5 mr-2 text-primary" />
+            Keyboard Shortcuts
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700"
+            aria-label="Close"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <dl className="p-4 space-y-2 text-sm">
+          {SHORTCUT_ACTIONS.map(({ action, label }) => (
+            <div key={action} className="flex items-center justify-between gap-4">
+              <dt>{label}</dt>
+              <dd className="flex flex-wrap justify-end gap-1 text-gray-500 dark:text-gray-400">
+                {shortcuts[action].length === 0
+                  ? 'Not set'
+                  : shortcuts[action].map((binding, index) => (
+                      <span key={binding} className="flex items-center gap-1">
+                        {index > 0 && 'or'}
+                        {binding.split(' ').map((key, keyIndex) => (
+                          <kbd
+                            key={keyIndex}
+                            className="min-w-6 px-1.5 py-0.5 text-center font-mono text-xs text-gray-800 dark:text-gray-200 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-sm"
+                          >
+                            {KEY_LABELS[key] ?? key}
+                          </kbd>
+                        ))}
+                      </span>
+                    ))}
+              </dd>
+            </div>
+          ))}
+        </dl>
+
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Keys pressed one after the other are shown side by side.
+          </p>
+          <button
+            onClick={onOpenSettings}
+            className="px-3 py-1.5 text-sm bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600"
+          >
+            Change keys
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutHelp;
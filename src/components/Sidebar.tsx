@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   Folder,
   Star,
@@ -11,44 +11,107 @@ import {
   Edit2,
   Check,
   X,
+  FolderInput,
+  Trash2,
+  Link2Off,
+  Copy,
+  Settings2,
+  FolderSearch,
 } from 'lucide-react';
 import { Folder as FolderType, Bookmark as BookmarkType } from '../types';
 import { useFolderEditing } from '../hooks/useFolderEditing';
+import { useBookmarkDrop } from '../hooks/useBookmarkDrop';
+import ItemErrorBadge from './ItemErrorBadge';
+import SavedSearchList from './SavedSearchList';
+import { SavedSearch } from '../services/savedSearches';
+import { TagNode, buildTagTree } from '../services/tagTree';
 
 interface SidebarProps {
   folders: FolderType[];
   selectedFolder: string | null;
-  selectedTag: string | null;
+  // Tags narrowing down the selected folder or view
+  selectedTags: string[];
   onSelectFolder: (folderId: string | null) => void;
-  onSelectTag: (tag: string | null) => void;
+  // Adds the tag to the selected tags, or removes it when it is already there
+  onSelectTag: (tag: string) => void;
   bookmarks: BookmarkType[];
   onAddFolder: (parentId: string | null) => void;
   onUpdateFolder: (folderId: string, newName: string) => void;
+  onMoveFolder: (folder: FolderType) => void;
+  onDeleteFolder: (folder: FolderType) => void;
+  onDropBookmarkOnFolder: (bookmarkId: string, folderId: string) => void;
+  onDropBookmarkOnFavorites: (bookmarkId: string) => void;
+  onDropBookmarkOnTag: (bookmarkId: string, tag: string) => void;
+  onManageTags: () => void;
+  folderErrors: Record<string, string>;
+  onDismissFolderError: (folderId: string) => void;
   isAuthenticated: boolean;
+  // Off when only part of the bookmarks has been loaded, since the counts would be wrong
+  showCounts?: boolean;
+  // Set while only some of the bookmarks are loaded, so the tag tree may be missing some
+  areTagsPartial?: boolean;
+  // Bookmarks whose last link check failed or redirected
+  brokenLinkCount: number;
+  // Bookmarks that point at the same page as another one
+  duplicateCount: number;
+  savedSearches: SavedSearch[];
+  savedSearchCounts: Record<string, number>;
+  // The smart folder whose search is on screen
+  activeSavedSearchId: string | null;
+  // Off while there is no search or tag to save
+  canSaveSearch: boolean;
+  onSaveSearch: () => void;
+  onSelectSavedSearch: (search: SavedSearch) => void;
+  onRenameSavedSearch: (id: string, name: string) => void;
+  onReorderSavedSearch: (id: string, offset: number) => void;
+  onDeleteSavedSearch: (id: string) => void;
 }
 
 const Sidebar: React.FC<SidebarProps> = ({
   folders,
   selectedFolder,
-  selectedTag,
+  selectedTags,
   onSelectFolder,
   onSelectTag,
   bookmarks,
   onAddFolder,
   onUpdateFolder,
+  onMoveFolder,
+  onDeleteFolder,
+  onDropBookmarkOnFolder,
+  onDropBookmarkOnFavorites,
+  onDropBookmarkOnTag,
+  onManageTags,
+  folderErrors,
+  onDismissFolderError,
   isAuthenticated,
+  showCounts = true,
+  areTagsPartial = false,
+  brokenLinkCount,
+  duplicateCount,
+  savedSearches,
+  savedSearchCounts,
+  activeSavedSearchId,
+  canSaveSearch,
+  onSaveSearch,
+  onSelectSavedSearch,
+  onRenameSavedSearch,
+  onReorderSavedSearch,
+  onDeleteSavedSearch,
 }) => {
   const [expandedSections, setExpandedSections] = useState(() => {
+    const defaults = { folders: true, favorites: true, smartFolders: true, tags: false };
     const saved = localStorage.getItem('bookmarkManagerExpandedSections');
     if (saved) {
       try {
-        return JSON.parse(saved);
+        // Sections added since the state was saved start with their default
+        return { ...defaults, ...JSON.parse(saved) };
       } catch (e) {
         console.error('Failed to parse saved expanded sections:', e);
-        return { folders: true, favorites: true, tags: false };
+        return defaults;
       }
     }
-    return { folders: true, favorites: true, tags: false };
+    return defaults;
   });
 
   const [expandedFolders, setExpandedFolders] = useState(() => {
@@ -64,6 +127,19 @@ const Sidebar: React.FC<SidebarProps> = ({
     return {};
   });
 
+  const [expandedTags, setExpandedTags] = useState(() => {
+    const saved = localStorage.getItem('bookmarkManagerExpandedTags');
+    if (saved) {
+      try {
+        return JSON.parse(saved);
+      } catch (e) {
+        console.error('Failed to parse saved expanded tags:', e);
+        return {};
+      }
+    }
+    return {};
+  });
+
   const {
     editingFolderId,
     editingFolderName,
@@ -74,6 +150,22 @@ const Sidebar: React.FC<SidebarProps> = ({
     handleKeyDown,
   } = useFolderEditing(isAuthenticated, onUpdateFolder);
 
+  const { activeTarget, getDropTargetProps } = useBookmarkDrop();
+
+  // Bookmarks can only be dropped when they can be saved
+  const dropTargetProps = (
+    targetKey: string,
+    onDropBookmark: (bookmarkId: string) => void,
+    onLongHover?: () => void
+  ) => (isAuthenticated ? getDropTargetProps(targetKey, onDropBookmark, onLongHover) : {});
+
+  const dropHighlight = (targetKey: string) =>
+    activeTarget === targetKey ? 'ring-2 ring-primary dark:ring-primary-light' : '';
+
+  const expandSection = (section: keyof typeof expandedSections) => {
+    setExpandedSections((prev: Record<string, boolean>) => ({ ...prev, [section]: true }));
+  };
+
   useEffect(() => {
     localStorage.setItem('bookmarkManagerExpandedSections', JSON.stringify(expandedSections));
   }, [expandedSections]);
@@ -82,6 +174,10 @@ const Sidebar: React.FC<SidebarProps> = ({
     localStorage.setItem('bookmarkManagerExpandedFolders', JSON.stringify(expandedFolders));
   }, [expandedFolders]);
 
+  useEffect(() => {
+    localStorage.setItem('bookmarkManagerExpandedTags', JSON.stringify(expandedTags));
+  }, [expandedTags]);
+
   const toggleSection = (section: keyof typeof expandedSections) => {
     setExpandedSections(prev => ({
       ...prev,
@@ -96,32 +192,68 @@ const Sidebar: React.FC<SidebarProps> = ({
     }));
   };
 
-  // Create a Set of unique tags and convert back to array
-  const allTags = Array.from(new Set(bookmarks.flatMap(bookmark => bookmark.tags))).sort((a, b) =>
-    a.localeCompare(b)
-  );
-  const favoritesCount = bookmarks.filter(bookmark => bookmark.favorite).length;
-  const rootFolders = folders.filter(folder => folder.parentId === null);
-
-  const getSubfolders = (parentId: string) => {
-    return folders.filter(folder => folder.parentId === parentId);
+  const toggleTag = (path: string) => {
+    setExpandedTags((prev: Record<string, boolean>) => ({
+      ...prev,
+      [path]: !prev[path],
+    }));
   };
 
-  const countFolderBookmarks = (folderId: string): number => {
-    const directBookmarks = bookmarks.filter(b => b.folderId === folderId).length;
-    const subfolderIds = folders.filter(f => f.parentId === folderId).map(f => f.id);
-    const subfolderBookmarks = subfolderIds.reduce((count, subfolderId) => {
-      return count + countFolderBookmarks(subfolderId);
-    }, 0);
+  // Counted in a single pass over the bookmarks, which matters with large collections
+  const { favoritesCount, folderCounts, subfoldersByParent } = useMemo(() => {
+    const directCounts = new Map<string, number>();
+    let favoritesCount = 0;
+    for (const bookmark of bookmarks) {
+      if (bookmark.favorite) favoritesCount++;
+      if (bookmark.folderId) {
+        directCounts.set(bookmark.folderId, (directCounts.get(bookmark.folderId) || 0) + 1);
+      }
+    }
 
-    return directBookmarks + subfolderBookmarks;
-  };
+    const subfoldersByParent = new Map<string | null, FolderType[]>();
+    for (const folder of folders) {
+      const siblings = subfoldersByParent.get(folder.parentId);
+      if (siblings) {
+        siblings.push(folder);
+      } else {
+        subfoldersByParent.set(folder.parentId, [folder]);
+      }
+    }
+
+    // A folder's count includes everything in its subfolders
+    const folderCounts = new Map<string, number>();
+    const countFolder = (folderId: string, visited: Set<string>): number => {
+      const known = folderCounts.get(folderId);
+      if (known !== undefined) return known;
+      if (visited.has(folderId)) return 0;
+      visited.add(folderId);
+      const total = (subfoldersByParent.get(folderId) || []).reduce(
+        (count, subfolder) => count + countFolder(subfolder.id, visited),
+        directCounts.get(folderId) || 0
+      );
+      folderCounts.set(folderId, total);
+      return total;
+    };
+    folders.forEach(folder => countFolder(folder.id, new Set()));
+
+    return {
+      favoritesCount,
+      folderCounts,
+      subfoldersByParent,
+    };
+  }, [bookmarks, folders]);
+
+  const rootFolders = subfoldersByParent.get(null) || [];
+
+  const tagTree = useMemo(() => buildTagTree(bookmarks), [bookmarks]);
+
+  const getSubfolders = (parentId: string) => subfoldersByParent.get(parentId) || [];
 
   const renderFolder = (folder: FolderType, depth: number = 0) => {
     const subfolders = getSubfolders(folder.id);
     const hasSubfolders = subfolders.length > 0;
     const isExpanded = expandedFolders[folder.id] || false;
-    const folderBookmarksCount = countFolderBookmarks(folder.id);
+    const folderBookmarksCount = folderCounts.get(folder.id) || 0;
     const isEditing = editingFolderId === folder.id;
 
     return (
@@ -147,8 +279,19 @@ const Sidebar: React.FC<SidebarProps> = ({
               selectedFolder === folder.id
                 ? 'bg-primary/10 dark:bg-primary/20 text-primary-dark dark:text-primary-light'
                 : 'hover:bg-gray-100 dark:hover:bg-gray-700'
-            }`}
+            } ${dropHighlight(`folder-${folder.id}`)}`}
             onClick={() => !isEditing && onSelectFolder(folder.id)}
+            {...dropTargetProps(
+              `folder-${folder.id}`,
+              bookmarkId => onDropBookmarkOnFolder(bookmarkId, folder.id),
+              hasSubfolders && !isExpanded
+                ? () =>
+                    setExpandedFolders((prev: Record<string, boolean>) => ({
+                      ...prev,
+                      [folder.id]: true,
+                    }))
+                : undefined
+            )}
           >
             <div className="flex-1 min-w-0 flex items-center">
               {isEditing ? (
@@ -181,15 +324,47 @@ const Sidebar: React.FC<SidebarProps> = ({
                 <div className="flex-1 flex items-center justify-between min-w-0">
                   <span className="truncate">{folder.name}</span>
                   <div className="flex items-center space-x-2 ml-2">
+                    {folderErrors[folder.id] && (
+                      <ItemErrorBadge
+                        message={folderErrors[folder.id]}
+                        onDismiss={() => onDismissFolderError(folder.id)}
+                      />
+                    )}
                     {isAuthenticated && (
-                      <button
-                        onClick={e => startEditing(folder, e)}
-                        className="p-1 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-full opacity-0 group-hover:opacity-100 transition-opacity cursor-pointer"
-                      >
-                        <Edit2 className="h-4 w-4 text-gray-500" />
-                      </button>
+                      <div className="flex items-center opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                        <button
+                          onClick={e => startEditing(folder, e)}
+                          className="p-1 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-full cursor-pointer"
+                          aria-label="Rename folder"
+                          title="Rename"
+                        >
+                          <Edit2 className="h-4 w-4 text-gray-500" />
+                        </button>
+                        <button
+                          onClick={e => {
+                            e.stopPropagation();
+                            onMoveFolder(folder);
+                          }}
+                          className="p-1 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-full cursor-pointer"
+                          aria-label="Move folder"
+                          title="Move to…"
+                        >
+                          <FolderInput className="h-4 w-4 text-gray-500" />
+                        </button>
+                        <button
+                          onClick={e => {
+                            e.stopPropagation();
+                            onDeleteFolder(folder);
+                          }}
+                          className="p-1 hover:bg-red-100 dark:hover:bg-red-900/30 rounded-full cursor-pointer"
+                          aria-label="Delete folder"
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </button>
+                      </div>
                     )}
-                    {folderBookmarksCount > 0 && (
+                    {showCounts && folderBookmarksCount > 0 && (
                       <span className="text-xs bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-300 px-2 py-1 rounded-full">
                         {folderBookmarksCount}
                       </span>
@@ -210,6 +385,67 @@ const Sidebar: React.FC<SidebarProps> = ({
     );
   };
 
+  const renderTag = (node: TagNode) => {
+    const hasChildren = node.children.length > 0;
+    const isExpanded = expandedTags[node.path] || false;
+    const isSelected = selectedTags.includes(node.path);
+
+    return (
+      <div key={node.path} className="mb-1">
+        <div className="flex items-center">
+          {hasChildren ? (
+            <button
+              onClick={() => toggleTag(node.path)}
+              className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-md mr-1 cursor-pointer"
+              aria-label={isExpanded ? `Collapse ${node.path}` : `Expand ${node.path}`}
+            >
+              {isExpanded ? (
+                <ChevronDown className="h-3 w-3 text-gray-500" />
+              ) : (
+                <ChevronRight className="h-3 w-3 text-gray-500" />
+              )}
+            </button>
+          ) : (
+            <div className="w-5" />
+          )}
+
+          <button
+            className={`flex-1 min-w-0 flex items-center justify-between px-2 py-1 rounded-md text-sm cursor-pointer ${
+              isSelected
+                ? 'bg-primary/10 dark:bg-primary/20 text-primary-dark dark:text-primary-light'
+                : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+            } ${dropHighlight(`tag-${node.path}`)}`}
+            onClick={() => onSelectTag(node.path)}
+            aria-pressed={isSelected}
+            title={node.path}
+            {...dropTargetProps(
+              `tag-${node.path}`,
+              bookmarkId => onDropBookmarkOnTag(bookmarkId, node.path),
+              hasChildren && !isExpanded
+                ? () =>
+                    setExpandedTags((prev: Record<string, boolean>) => ({
+                      ...prev,
+                      [node.path]: true,
+                    }))
+                : undefined
+            )}
+          >
+            <span className="truncate">{node.name}</span>
+            {showCounts && (
+              <span className="ml-2 text-xs bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-300 px-2 py-0.5 rounded-full">
+                {node.count}
+              </span>
+            )}
+          </button>
+        </div>
+
+        {hasChildren && isExpanded && (
+          <div className="ml-4 mt-1">{node.children.map(renderTag)}</div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <aside className="w-64 bg-white dark:bg-gray-800 h-full overflow-y-auto border-r border-gray-200 dark:border-gray-700">
       <div className="p-4">
@@ -223,7 +459,7 @@ const Sidebar: React.FC<SidebarProps> = ({
         <div className="mb-6">
           <button
             className={`w-full flex items-center justify-between p-2 rounded-md cursor-pointer ${
-              selectedFolder === 'all' && !selectedTag
+              selectedFolder === 'all'
                 ? 'bg-primary/10 dark:bg-primary/20 text-primary-dark dark:text-primary-light'
                 : 'hover:bg-gray-100 dark:hover:bg-gray-700'
             }`}
@@ -237,12 +473,51 @@ const Sidebar: React.FC<SidebarProps> = ({
               {bookmarks.length}
             </span>
           </button>
+          <button
+            className={`w-full mt-1 flex items-center justify-between p-2 rounded-md cursor-pointer ${
+              selectedFolder === 'broken-links'
+                ? 'bg-primary/10 dark:bg-primary/20 text-primary-dark dark:text-primary-light'
+                : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+            }`}
+            onClick={() => onSelectFolder('broken-links')}
+          >
+            <div className="flex items-center">
+              <Link2Off className="h-5 w-5 mr-2 text-red-500" />
+              <span className="font-medium">Broken Links</span>
+            </div>
+            {brokenLinkCount > 0 && (
+              <span className="text-xs bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 px-2 py-1 rounded-full">
+                {brokenLinkCount}
+              </span>
+            )}
+          </button>
+          <button
+            className={`w-full mt-1 flex items-center justify-between p-2 rounded-md cursor-pointer ${
+              selectedFolder === 'duplicates'
+                ? 'bg-primary/10 dark:bg-primary/20 text-primary-dark dark:text-primary-light'
+                : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+            }`}
+            onClick={() => onSelectFolder('duplicates')}
+          >
+            <div className="flex items-center">
+              <Copy className="h-5 w-5 mr-2 text-yellow-500" />
+              <span className="font-medium">Duplicates</span>
+            </div>
+            {duplicateCount > 0 && (
+              <span className="text-xs bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300 px-2 py-1 rounded-full">
+                {duplicateCount}
+              </span>
+            )}
+          </button>
         </div>
 
         <div className="mb-6">
           <div
-            className="flex items-center justify-between p-2 cursor-pointer"
+            className={`flex items-center justify-between p-2 rounded-md cursor-pointer ${dropHighlight('favorites-section')}`}
             onClick={() => toggleSection('favorites')}
+            {...dropTargetProps('favorites-section', onDropBookmarkOnFavorites, () =>
+              expandSection('favorites')
+            )}
           >
             <div className="flex items-center">
               <Star className="h-5 w-5 mr-2 text-yellow-500" />
@@ -259,17 +534,71 @@ const Sidebar: React.FC<SidebarProps> = ({
             <div className="ml-4 mt-2">
               <button
                 className={`w-full flex items-center justify-between p-2 rounded-md cursor-pointer ${
-                  selectedFolder === 'favorites' && !selectedTag
+                  selectedFolder === 'favorites'
                     ? 'bg-primary/10 dark:bg-primary/20 text-primary-dark dark:text-primary-light'
                     : 'hover:bg-gray-100 dark:hover:bg-gray-700'
-                }`}
+                } ${dropHighlight('favorites')}`}
                 onClick={() => onSelectFolder('favorites')}
+                {...dropTargetProps('favorites', onDropBookmarkOnFavorites)}
               >
                 <span>All Favorites</span>
-                <span className="text-xs bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-300 px-2 py-1 rounded-full">
-                  {favoritesCount}
-                </span>
+                {showCounts && (
+                  <span className="text-xs bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-300 px-2 py-1 rounded-full">
+                    {favoritesCount}
+                  </span>
+                )}
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="mb-6">
+          <div
+            className="flex items-center justify-between p-2 cursor-pointer"
+            onClick={() => toggleSection('smartFolders')}
+          >
+            <div className="flex items-center">
+              <FolderSearch className="h-5 w-5 mr-2 text-primary" />
+              <span className="font-medium">Smart Folders</span>
+            </div>
+            <div className="flex items-center">
+              <button
+                className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 mr-1 cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+                aria-label="Save current search"
+                title={
+                  canSaveSearch
+                    ? 'Save the current search and tags as a smart folder'
+                    : 'Search or pick tags to save them as a smart folder'
+                }
+                disabled={!canSaveSearch}
+                onClick={e => {
+                  e.stopPropagation();
+                  onSaveSearch();
+                  expandSection('smartFolders');
+                }}
+              >
+                <Plus className="h-4 w-4 text-secondary" />
               </button>
+              {expandedSections.smartFolders ? (
+                <ChevronDown className="h-4 w-4 text-gray-500" />
+              ) : (
+                <ChevronRight className="h-4 w-4 text-gray-500" />
+              )}
+            </div>
+          </div>
+
+          {expandedSections.smartFolders && (
+            <div className="ml-4 mt-2">
+              <SavedSearchList
+                searches={savedSearches}
+                counts={savedSearchCounts}
+                showCounts={showCounts}
+                activeId={activeSavedSearchId}
+                onSelect={onSelectSavedSearch}
+                onRename={onRenameSavedSearch}
+                onReorder={onReorderSavedSearch}
+                onDelete={onDeleteSavedSearch}
+              />
             </div>
           )}
         </div>
@@ -278,6 +607,11 @@ const Sidebar: React.FC<SidebarProps> = ({
           <div
             className="flex items-center justify-between p-2 cursor-pointer"
             onClick={() => toggleSection('folders')}
+            {...dropTargetProps(
+              'folders-section',
+              () => {},
+              () => expandSection('folders')
+            )}
           >
             <div className="flex items-center">
               <Folder className="h-5 w-5 mr-2 text-primary" />
@@ -315,47 +649,46 @@ const Sidebar: React.FC<SidebarProps> = ({
           <div
             className="flex items-center justify-between p-2 cursor-pointer"
             onClick={() => toggleSection('tags')}
+            {...dropTargetProps(
+              'tags-section',
+              () => {},
+              () => expandSection('tags')
+            )}
           >
             <div className="flex items-center">
               <Tag className="h-5 w-5 mr-2 text-primary" />
               <span className="font-medium">Tags</span>
             </div>
-            {expandedSections.tags ? (
-              <ChevronDown className="h-4 w-4 text-gray-500" />
-            ) : (
-              <ChevronRight className="h-4 w-4 text-gray-500" />
-            )}
+            <div className="flex items-center">
+              {isAuthenticated && tagTree.length > 0 && (
+                <button
+                  className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 mr-1 cursor-pointer"
+                  aria-label="Manage tags"
+                  title="Rename, merge or delete tags"
+                  onClick={e => {
+                    e.stopPropagation();
+                    onManageTags();
+                  }}
+                >
+                  <Settings2 className="h-4 w-4 text-secondary" />
+                </button>
+              )}
+              {expandedSections.tags ? (
+                <ChevronDown className="h-4 w-4 text-gray-500" />
+              ) : (
+                <ChevronRight className="h-4 w-4 text-gray-500" />
+              )}
+            </div>
           </div>
 
           {expandedSections.tags && (
-            <div className="ml-4 mt-2">
-              <div className="flex flex-wrap gap-2">
-                {allTags.map(tag => {
-                  const tagCount = bookmarks.filter(b => b.tags.includes(tag)).length;
-                  return (
-                    <button
-                      key={`tag-${tag}`}
-                      onClick={() => onSelectTag(selectedTag === tag ? null : tag)}
-                      className={`flex items-center ${
-                        selectedTag === tag
-                          ? 'bg-primary text-white'
-                          : 'bg-primary/10 dark:bg-primary/20 text-primary-dark dark:text-primary-light'
-                      } px-2 py-1 rounded text-xs cursor-pointer hover:opacity-90`}
-                    >
-                      <span>{tag}</span>
-                      <span
-                        className={`ml-1 ${
-                          selectedTag === tag
-                            ? 'bg-primary-dark'
-                            : 'bg-primary/20 dark:bg-primary/30'
-                        } px-1.5 py-0.5 rounded-full text-xs`}
-                      >
-                        {tagCount}
-                      </span>
-                    </button>
-                  );
-                })}
-              </div>
+            <div className="ml-2 mt-2">
+              {tagTree.map(renderTag)}
+              {areTagsPartial && (
+                <p className="px-2 py-1 text-xs text-gray-500 dark:text-gray-400">
+                  Only tags of the bookmarks loaded so far are shown.
+                </p>
+              )}
             </div>
           )}
         </div>
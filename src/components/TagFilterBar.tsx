@@ -0,0 +1,75 @@
+import React from 'react';
+import { X, Tag } from 'lucide-react';
+import { TagMatchMode } from '../services/bookmarkFilter';
+
+interface TagFilterBarProps {
+  tags: string[];
+  mode: TagMatchMode;
+  onRemoveTag: (tag: string) => void;
+  onChangeMode: (mode: TagMatchMode) => void;
+  onClear: () => void;
+}
+
+const MODE_OPTIONS: { value: TagMatchMode; label: string; description: string }[] = [
+  { value: 'and', label: 'All', description: 'Bookmarks with every one of these tags' },
+  { value: 'or', label: 'Any', description: 'Bookmarks with at least one of these tags' },
+  { value: 'not', label: 'None', description: 'Bookmarks with none of these tags' },
+];
+
+// The tags the open folder or view is narrowed to, and how they combine
+const TagFilterBar: React.FC<TagFilterBarProps> = ({
+  tags,
+  mode,
+  onRemoveTag,
+  onChangeMode,
+  onClear,
+}) => (
+  <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+    <div
+      className="flex rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden"
+      role="group"
+      aria-label="Match"
+    >
+      {MODE_OPTIONS.map(option => (
+        <button
+          key={option.value}
+          onClick={() => onChangeMode(option.value)}
+          className={`px-2 py-1 cursor-pointer ${
+            mode === option.value
+              ? 'bg-blue-100 dark:bg-blue-900 text-blue-600 dark:text-blue-400'
+              : 'hover:bg-gray-200 dark:hover:bg-gray-700'
+          }`}
+          aria-pressed={mode === option.value}
+          title={option.description}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+    <span className="text-gray-500 dark:text-gray-400">of</span>
+    {tags.map(tag => (
+      <span
+        key={tag}
+        className="flex items-center bg-primary/10 dark:bg-primary/20 text-primary-dark dark:text-primary-light px-2 py-1 rounded"
+      >
+        <Tag className="h-3 w-3 mr-1" aria-hidden="true" />
+        {tag}
+        <button
+          onClick={() => onRemoveTag(tag)}
+          className="ml-1 rounded-full hover:bg-primary/20 dark:hover:bg-primary/30 cursor-pointer"
+          aria-label={`Remove tag ${tag} from the filter`}
+        >
+          <X className="h-3 w-3" />
+        </button>
+      </span>
+    ))}
+    <button
+      onClick={onClear}
+      className="text-gray-500 dark:text-gray-400 hover:underline cursor-pointer"
+    >
+      Clear tags
+    </button>
+  </div>
+);
+
+export default TagFilterBar;
@@ -0,0 +1,269 @@
+import React, { useMemo, useState } from 'react';
+import { X, Tags, Trash2, Loader2, PencilLine, Merge } from 'lucide-react';
+import { Bookmark } from '../types';
+import { BulkProgress, BulkResult } from '../hooks/useBookmarks';
+import { TagEdit, applyTagEdit, bookmarksAffectedByTagEdit } from '../services/tagEdits';
+
+interface TagManagerModalProps {
+  bookmarks: Bookmark[];
+  // Set while every bookmark is being downloaded from a server that pages them
+  isLoading: boolean;
+  // Set when only some of the bookmarks could be loaded; tags are then not edited at all,
+  // since the bookmarks elsewhere would keep the old ones
+  isPartial: boolean;
+  onBulkUpdate: (
+    ids: string[],
+    update: (bookmark: Bookmark) => Bookmark,
+    onProgress?: (progress: BulkProgress) => void
+  ) => Promise<BulkResult>;
+  onTagsEdited: (edit: TagEdit) => void;
+  onClose: () => void;
+}
+
+// Renames, merges and deletes tags across every bookmark that carries them
+const TagManagerModal: React.FC<TagManagerModalProps> = ({
+  bookmarks,
+  isLoading,
+  isPartial,
+  onBulkUpdate,
+  onTagsEdited,
+  onClose,
+}) => {
+  const [checked, setChecked] = useState<string[]>([]);
+  const [filter, setFilter] = useState('');
+  const [newName, setNewName] = useState('');
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [progress, setProgress] = useState<BulkProgress | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const tagCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const bookmark of bookmarks) {
+      for (const tag of new Set(bookmark.tags)) {
+        counts.set(tag, (counts.get(tag) || 0) + 1);
+      }
+    }
+    return counts;
+  }, [bookmarks]);
+
+  const allTags = Array.from(tagCounts.keys()).sort((a, b) => a.localeCompare(b));
+  const visibleTags = allTags.filter(tag =>
+    tag.toLowerCase().includes(filter.trim().toLowerCase())
+  );
+  // Tags that disappeared after an edit drop out of the selection
+  const selected = checked.filter(tag => tagCounts.has(tag));
+  const target = newName.trim();
+  const isRunning = progress !== null;
+  const canEdit = !isLoading && !isPartial;
+
+  const renameEdit: TagEdit = { from: selected, to: target };
+  const deleteEdit: TagEdit = { from: selected, to: null };
+  const renameCount = target ? bookmarksAffectedByTagEdit(bookmarks, renameEdit).length : 0;
+  const deleteCount = bookmarksAffectedByTagEdit(bookmarks, deleteEdit).length;
+
+  const toggleTag = (tag: string) => {
+    setConfirmDelete(false);
+    setChecked(prev => (prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]));
+  };
+
+  const run = async (label: string, edit: TagEdit) => {
+    const affected = bookmarksAffectedByTagEdit(bookmarks, edit);
+    setConfirmDelete(false);
+    setStatus(null);
+    setProgress({ done: 0, total: affected.length });
+    try {
+      const { succeeded, failed } = await onBulkUpdate(
+        affected.map(bookmark => bookmark.id),
+        bookmark => ({ ...bookmark, tags: applyTagEdit(bookmark.tags, edit) }),
+        setProgress
+      );
+      setStatus(
+        failed.length > 0
+          ? `${label} ${succeeded.length} bookmarks, ${failed.length} failed`
+          : `${label} ${succeeded.length} bookmarks`
+      );
+      if (failed.length === 0) {
+        onTagsEdited(edit);
+        setChecked([]);
+        setNewName('');
+      }
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const renameLabel = selected.length > 1 ? 'Merge' : 'Rename';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold flex items-center">
+            <Tags className="h-5 w-5 mr-2 text-primary" />
+            Manage Tags
+          </h2>
+          <button
+            onClick={onClose}
+            disabled={isRunning}
+            className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50"
+            aria-label="Close"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {isPartial && !isLoading && (
+            <p className="text-xs text-yellow-700 dark:text-yellow-400">
+              Not every bookmark could be loaded, so tags cannot be changed on all of them. Try
+              again once the server can be reached.
+            </p>
+          )}
+
+          {isLoading ? (
+            <p className="flex items-center text-sm text-gray-500 dark:text-gray-400" role="status">
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              Loading all bookmarks…
+            </p>
+          ) : allTags.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No bookmarks have tags yet.</p>
+          ) : (
+            <>
+              <input
+                type="search"
+                value={filter}
+                onChange={e => setFilter(e.target.value)}
+                placeholder="Filter tags"
+                aria-label="Filter tags"
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700"
+              />
+              <ul className="max-h-60 overflow-y-auto space-y-1">
+                {visibleTags.map(tag => (
+                  <li key={tag}>
+                    <label className="flex items-center justify-between p-1.5 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 cursor-pointer text-sm">
+                      <span className="flex items-center min-w-0">
+                        <input
+                          type="checkbox"
+                          checked={selected.includes(tag)}
+                          onChange={() => toggleTag(tag)}
+                          disabled={isRunning}
+                          className="mr-2 accent-blue-600"
+                        />
+                        <span className="truncate">{tag}</span>
+                      </span>
+                      <span className="text-xs bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-300 px-2 py-0.5 rounded-full">
+                        {tagCounts.get(tag)}
+                      </span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+
+          {selected.length > 0 && canEdit && (
+            <div className="space-y-3 border-t border-gray-200 dark:border-gray-700 pt-4">
+              <div>
+                <label htmlFor="tagNewName" className="block text-sm font-medium mb-1">
+                  {selected.length > 1
+                    ? `Merge ${selected.length} tags into`
+                    : `Rename "${selected[0]}" to`}
+                </label>
+                <div className="flex gap-2">
+                  <input
+                    id="tagNewName"
+                    type="text"
+                    list="tagManagerTags"
+                    value={newName}
+                    onChange={e => setNewName(e.target.value)}
+                    disabled={isRunning}
+                    className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700"
+                  />
+                  <datalist id="tagManagerTags">
+                    {allTags.map(tag => (
+                      <option key={tag} value={tag} />
+                    ))}
+                  </datalist>
+                  <button
+                    onClick={() =>
+                      run(selected.length > 1 ? 'Merged tags on' : 'Renamed tag on', renameEdit)
+                    }
+                    disabled={isRunning || renameCount === 0}
+                    className="flex items-center px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {selected.length > 1 ? (
+                      <Merge className="h-4 w-4 mr-1" />
+                    ) : (
+                      <PencilLine className="h-4 w-4 mr-1" />
+                    )}
+                    {renameLabel}
+                  </button>
+                </div>
+                {target && (
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    {renameCount} bookmarks will be updated.
+                  </p>
+                )}
+              </div>
+
+              {confirmDelete ? (
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="text-red-700 dark:text-red-400">
+                    Remove {selected.length > 1 ? 'these tags' : 'this tag'} from {deleteCount}{' '}
+                    bookmarks?
+                  </span>
+                  <button
+                    onClick={() => run('Removed tags from', deleteEdit)}
+                    className="px-2 py-1 bg-red-600 text-white rounded-md hover:bg-red-700"
+                  >
+                    Delete
+                  </button>
+                  <button
+                    onClick={() => setConfirmDelete(false)}
+                    className="px-2 py-1 bg-gray-200 dark:bg-gray-700 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => setConfirmDelete(true)}
+                  disabled={isRunning || deleteCount === 0}
+                  className="flex items-center text-sm px-3 py-1.5 rounded-md text-red-600 dark:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Delete {selected.length > 1 ? `${selected.length} tags` : 'tag'} from{' '}
+                  {deleteCount} bookmarks
+                </button>
+              )}
+            </div>
+          )}
+
+          {progress && (
+            <p className="flex items-center text-sm text-gray-600 dark:text-gray-300" role="status">
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              Updating {progress.done} of {progress.total}…
+            </p>
+          )}
+          {status && !isRunning && (
+            <p className="text-sm text-gray-600 dark:text-gray-300" role="status">
+              {status}
+            </p>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end">
+          <button
+            onClick={onClose}
+            disabled={isRunning}
+            className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TagManagerModal;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { CheckCircle, AlertCircle, Info, X } from 'lucide-react';
+import { useToasts } from '../hooks/useToasts';
+import { toasts, ToastType } from '../services/toasts';
+
+const toastStyles: Record<ToastType, { icon: React.ReactElement; className: string }> = {
+  success: {
+    icon: <CheckCircle className="h-5 w-5 text-green-500 shrink-0" />,
+    className: 'border-green-200 dark:border-green-800',
+  },
+  error: {
+    icon: <AlertCircle className="h-5 w-5 text-red-500 shrink-0" />,
+    className: 'border-red-200 dark:border-red-800',
+  },
+  info: {
+    icon: <Info className="h-5 w-5 text-blue-500 shrink-0" />,
+    className: 'border-blue-200 dark:border-blue-800',
+  },
+};
+
+const ToastContainer: React.FC = () => {
+  const items = useToasts();
+
+  return (
+    <div
+      className="fixed bottom-4 right-4 z-60 flex flex-col items-end space-y-2 pointer-events-none"
+      aria-live="polite"
+    >
+      {items.map(toast => (
+        <div
+          key={toast.id}
+          role={toast.type === 'error' ? 'alert' : 'status'}
+          className={`pointer-events-auto flex items-center w-80 max-w-[calc(100vw-2rem)] p-3 bg-white dark:bg-gray-800 border rounded-lg shadow-lg text-sm ${
+            toastStyles[toast.type].className
+          }`}
+        >
+          {toastStyles[toast.type].icon}
+          <span className="flex-1 mx-2 break-words">{toast.message}</span>
+          {toast.action && (
+            <button
+              onClick={() => {
+                toast.action!.onClick();
+                toasts.dismiss(toast.id);
+              }}
+              className="px-2 py-1 font-medium text-primary dark:text-primary-light hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md cursor-pointer"
+            >
+              {toast.action.label}
+            </button>
+          )}
+          <button
+            onClick={() => toasts.dismiss(toast.id)}
+            className="p-1 ml-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 cursor-pointer"
+            aria-label="Dismiss notification"
+          >
+            <X className="h-4 w-4 text-gray-500" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ToastContainer;
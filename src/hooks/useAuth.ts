@@ -1,19 +1,101 @@
-import { useState, useEffect } from 'react';
-import { AuthState } from '../types';
+import { useState, useEffect, useRef } from 'react';
+import { AuthState, AuthStatus, StorageKind } from '../types';
+import {
+  onAuthError,
+  createApiClient,
+  ApiConnection,
+  KeyVerificationResult,
+} from '../services/apiClient';
 
-export function useAuth(apiKey: string) {
-  const [authState, setAuthState] = useState<AuthState>({
-    isAuthenticated: false,
-    apiKey: '',
+interface Verification {
+  // Identifies the server and key that were verified
+  target: string;
+  attempt: number;
+  result: KeyVerificationResult;
+}
+
+const statusForResult: Record<KeyVerificationResult, AuthStatus> = {
+  valid: 'valid',
+  readOnly: 'readOnly',
+  invalid: 'invalid',
+  unreachable: 'unverified',
+  unsupported: 'unverified',
+};
+
+// Verifies the key with the API whenever it changes, and again when a request comes back
+// with 401 or 403 since the key may have been revoked or had its scopes changed.
+// onKeyRejected is called once a verification finds that the server does not know the key.
+// Browser-only profiles have no key and can always make changes.
+export function useAuth(
+  { baseUrl, apiKey, storage = 'api' }: ApiConnection & { storage?: StorageKind },
+  onKeyRejected?: () => void
+) {
+  const [verification, setVerification] = useState<Verification | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const onKeyRejectedRef = useRef(onKeyRejected);
+  // The last key reported through onKeyRejected, so each bad key is only reported once
+  const rejectedTargetRef = useRef<string | null>(null);
+  const target = `${baseUrl} ${apiKey}`;
+
+  useEffect(() => {
+    onKeyRejectedRef.current = onKeyRejected;
   });
 
+  useEffect(
+    () =>
+      onAuthError((_error, rejectedKey) => {
+        if (rejectedKey) setAttempt(current => current + 1);
+      }),
+    []
+  );
+
+  // Keys that could not be checked while offline are checked once the browser reconnects
   useEffect(() => {
-    const isValid = apiKey && apiKey.trim().length >= 8;
-    setAuthState({
-      isAuthenticated: isValid,
-      apiKey,
-    });
-  }, [apiKey]);
+    const handleOnline = () => setAttempt(current => current + 1);
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, []);
+
+  useEffect(() => {
+    if (!apiKey || storage === 'local') return;
+
+    let isCurrent = true;
+    createApiClient({ baseUrl, apiKey })
+      .verifyKey()
+      .catch((): KeyVerificationResult => 'unreachable')
+      .then(result => {
+        if (!isCurrent) return;
+        setVerification({ target, attempt, result });
+        if (result === 'invalid' && rejectedTargetRef.current !== target) {
+          rejectedTargetRef.current = target;
+          onKeyRejectedRef.current?.();
+        }
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [baseUrl, apiKey, storage, target, attempt]);
+
+  const isCurrentKey = !!apiKey && verification?.target === target;
+  const status: AuthStatus =
+    storage === 'local'
+      ? 'local'
+      : !apiKey
+        ? 'none'
+        : isCurrentKey
+          ? statusForResult[verification.result]
+          : 'unverified';
+
+  const authState: AuthState = {
+    status,
+    // Keys that have not been verified yet keep working so that changes can still be made,
+    // and queued, while the API is unreachable
+    isAuthenticated: status === 'valid' || status === 'unverified' || status === 'local',
+    // Keep reading anonymously rather than sending a key the server refuses
+    apiKey: status === 'invalid' || status === 'local' ? '' : apiKey,
+    isVerifying:
+      status !== 'local' && !!apiKey && !(isCurrentKey && verification.attempt === attempt),
+  };
 
   return authState;
 }
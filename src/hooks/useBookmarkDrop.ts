@@ -0,0 +1,67 @@
+import { useState, useRef, useEffect } from 'react';
+
+const BOOKMARK_DRAG_TYPE = 'application/x-bookmark-id';
+const AUTO_EXPAND_DELAY = 600;
+
+export function startBookmarkDrag(e: React.DragEvent, bookmarkId: string) {
+  e.dataTransfer.setData(BOOKMARK_DRAG_TYPE, bookmarkId);
+  e.dataTransfer.effectAllowed = 'move';
+}
+
+const isBookmarkDrag = (e: React.DragEvent) =>
+  Array.from(e.dataTransfer.types).includes(BOOKMARK_DRAG_TYPE);
+
+export function useBookmarkDrop() {
+  const [activeTarget, setActiveTarget] = useState<string | null>(null);
+  const hoverTimer = useRef<number | null>(null);
+
+  const clearHoverTimer = () => {
+    if (hoverTimer.current !== null) {
+      window.clearTimeout(hoverTimer.current);
+      hoverTimer.current = null;
+    }
+  };
+
+  useEffect(() => clearHoverTimer, []);
+
+  // onLongHover fires when a bookmark is held over the target for a moment, which the
+  // sidebar uses to expand collapsed folders and sections.
+  const getDropTargetProps = (
+    targetKey: string,
+    onDropBookmark: (bookmarkId: string) => void,
+    onLongHover?: () => void
+  ) => ({
+    onDragEnter: (e: React.DragEvent) => {
+      if (!isBookmarkDrag(e)) return;
+      e.preventDefault();
+      setActiveTarget(targetKey);
+      clearHoverTimer();
+      if (onLongHover) {
+        hoverTimer.current = window.setTimeout(onLongHover, AUTO_EXPAND_DELAY);
+      }
+    },
+    onDragOver: (e: React.DragEvent) => {
+      if (!isBookmarkDrag(e)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+      setActiveTarget(prev => (prev === targetKey ? null : prev));
+      clearHoverTimer();
+    },
+    onDrop: (e: React.DragEvent) => {
+      const bookmarkId = e.dataTransfer.getData(BOOKMARK_DRAG_TYPE);
+      e.preventDefault();
+      e.stopPropagation();
+      setActiveTarget(null);
+      clearHoverTimer();
+      if (bookmarkId) onDropBookmark(bookmarkId);
+    },
+  });
+
+  return {
+    activeTarget,
+    getDropTargetProps,
+  };
+}
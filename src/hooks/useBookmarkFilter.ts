@@ -0,0 +1,67 @@
+import { useState, useEffect } from 'react';
+import {
+  BookmarkFilter,
+  TagMatchMode,
+  readFilter,
+  writeFilter,
+  isSameFilter,
+} from '../services/bookmarkFilter';
+import { TagEdit, applyTagEdit } from '../services/tagEdits';
+
+// The folder and tags the bookmark list is narrowed to, kept in the address bar so that the
+// view can be shared and followed with back and forward
+export function useBookmarkFilter() {
+  const [filter, setFilter] = useState<BookmarkFilter>(() =>
+    readFilter(new URLSearchParams(window.location.search))
+  );
+
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    if (isSameFilter(readFilter(url.searchParams), filter)) return;
+
+    writeFilter(url.searchParams, filter);
+    window.history.pushState({ type: 'filter' }, '', url.toString());
+  }, [filter]);
+
+  // Handle browser back/forward navigation
+  useEffect(() => {
+    const handlePopState = () => {
+      setFilter(readFilter(new URLSearchParams(window.location.search)));
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // Opening a folder or view starts without tags
+  const selectFolder = (folderId: string | null) =>
+    setFilter({ folder: folderId, tags: [], tagMode: 'and' });
+
+  const toggleTag = (tag: string) =>
+    setFilter(prev => ({
+      ...prev,
+      tags: prev.tags.includes(tag) ? prev.tags.filter(t => t !== tag) : [...prev.tags, tag],
+    }));
+
+  const setTagMode = (tagMode: TagMatchMode) => setFilter(prev => ({ ...prev, tagMode }));
+
+  const clearTags = () => setFilter(prev => ({ ...prev, tags: [], tagMode: 'and' }));
+
+  // Keeps the selected tags in step with tags renamed, merged or deleted everywhere
+  const followTagEdit = (edit: TagEdit) =>
+    setFilter(prev =>
+      prev.tags.some(tag => edit.from.includes(tag))
+        ? { ...prev, tags: applyTagEdit(prev.tags, edit) }
+        : prev
+    );
+
+  return {
+    filter,
+    setFilter,
+    selectFolder,
+    toggleTag,
+    setTagMode,
+    clearTags,
+    followTagEdit,
+  };
+}
@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { StorageBackend } from '../services/storageBackend';
+import { ImportedNode } from '../services/netscapeBookmarks';
+
+export type ImportItemStatus = 'pending' | 'success' | 'error' | 'skipped';
+
+export interface ImportItemResult {
+  key: string;
+  kind: ImportedNode['kind'];
+  label: string;
+  depth: number;
+  status: ImportItemStatus;
+  error?: string;
+}
+
+// Flattens the tree in the same order the import walks it, so the preview rows and
+// the progress report share the same keys.
+function flattenNodes(nodes: ImportedNode[], depth = 0, prefix = ''): ImportItemResult[] {
+  return nodes.flatMap((node, index) => {
+    const key = `${prefix}${index}`;
+    const item: ImportItemResult = {
+      key,
+      kind: node.kind,
+      label: node.kind === 'folder' ? node.name : node.title,
+      depth,
+      status: 'pending',
+    };
+    return node.kind === 'folder'
+      ? [item, ...flattenNodes(node.children, depth + 1, `${key}.`)]
+      : [item];
+  });
+}
+
+export function useBookmarkImport(api: StorageBackend, isAuthenticated: boolean) {
+  const [items, setItems] = useState<ImportItemResult[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isFinished, setIsFinished] = useState(false);
+
+  const prepare = (nodes: ImportedNode[]) => {
+    setItems(flattenNodes(nodes));
+    setIsFinished(false);
+  };
+
+  const reset = () => {
+    setItems([]);
+    setIsFinished(false);
+  };
+
+  const setItemStatus = (key: string, status: ImportItemStatus, error?: string) => {
+    setItems(prev => prev.map(item => (item.key === key ? { ...item, status, error } : item)));
+  };
+
+  const skipSubtree = (prefix: string) => {
+    setItems(prev =>
+      prev.map(item =>
+        item.key.startsWith(prefix)
+          ? { ...item, status: 'skipped', error: 'Parent folder was not created' }
+          : item
+      )
+    );
+  };
+
+  const importNodes = async (
+    nodes: ImportedNode[],
+    parentId: string | null,
+    prefix: string
+  ): Promise<void> => {
+    for (const [index, node] of nodes.entries()) {
+      const key = `${prefix}${index}`;
+
+      if (node.kind === 'folder') {
+        try {
+          const folder = await api.createFolder(node.name, parentId);
+          setItemStatus(key, 'success');
+          await importNodes(node.children, folder.id, `${key}.`);
+        } catch (err) {
+          setItemStatus(
+            key,
+            'error',
+            err instanceof Error ? err.message : 'Failed to create folder'
+          );
+          skipSubtree(`${key}.`);
+        }
+        continue;
+      }
+
+      try {
+        await api.createBookmark({
+          title: node.title,
+          url: node.url,
+          description: node.description,
+          thumbnail: node.icon,
+          tags: node.tags,
+          folderId: parentId,
+          favorite: false,
+          ...(node.dateAdded ? { dateAdded: node.dateAdded } : {}),
+        });
+        setItemStatus(key, 'success');
+      } catch (err) {
+        setItemStatus(
+          key,
+          'error',
+          err instanceof Error ? err.message : 'Failed to create bookmark'
+        );
+      }
+    }
+  };
+
+  const runImport = async (nodes: ImportedNode[], targetFolderId: string | null) => {
+    if (!isAuthenticated || isImporting) return;
+
+    setIsImporting(true);
+    setIsFinished(false);
+    setItems(flattenNodes(nodes));
+
+    try {
+      await importNodes(nodes, targetFolderId, '');
+    } finally {
+      setIsImporting(false);
+      setIsFinished(true);
+    }
+  };
+
+  const completed = items.filter(item => item.status !== 'pending').length;
+  const failed = items.filter(item => item.status === 'error' || item.status === 'skipped').length;
+
+  return {
+    items,
+    isImporting,
+    isFinished,
+    completed,
+    failed,
+    prepare,
+    reset,
+    runImport,
+  };
+}
@@ -0,0 +1,109 @@
+import { useState, useEffect, useRef } from 'react';
+import { Bookmark } from '../types';
+import { BookmarkPageQuery } from '../services/apiClient';
+import { StorageBackend } from '../services/storageBackend';
+import { isNetworkError } from '../services/outbox';
+import { toasts } from '../services/toasts';
+
+const PAGE_SIZE = 50;
+
+interface Pages {
+  // The query and connection these pages belong to
+  key: string;
+  ids: string[];
+  nextCursor: string | null;
+  total: number | null;
+  // The first page could not be fetched because the API is unreachable
+  isUnavailable?: boolean;
+}
+
+// Loads the bookmarks matching the query a page at a time, for servers that support it.
+// The bookmarks themselves are handed to onItems so they can be kept, and edited, along
+// with the rest; this hook only tracks which ones the current view shows and in what order.
+export function useBookmarkPages(
+  api: StorageBackend,
+  query: BookmarkPageQuery,
+  isEnabled: boolean,
+  onItems: (items: Bookmark[]) => void
+) {
+  const [pages, setPages] = useState<Pages>({ key: '', ids: [], nextCursor: null, total: null });
+  const [loadingCursor, setLoadingCursor] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const onItemsRef = useRef(onItems);
+
+  useEffect(() => {
+    onItemsRef.current = onItems;
+  });
+
+  const key = JSON.stringify([api.id, query, reloadCount]);
+
+  useEffect(() => {
+    if (!isEnabled) return;
+
+    let cancelled = false;
+    api
+      .getBookmarkPage({ ...query, limit: PAGE_SIZE })
+      .then(response => {
+        if (cancelled) return;
+        const page = Array.isArray(response) ? { items: response, nextCursor: null } : response;
+        onItemsRef.current(page.items);
+        setPages({
+          key,
+          ids: page.items.map(bookmark => bookmark.id),
+          nextCursor: page.nextCursor,
+          total: page.total ?? null,
+        });
+      })
+      .catch(err => {
+        if (cancelled) return;
+        const isUnavailable = isNetworkError(err);
+        if (!isUnavailable) toasts.error(err, 'Failed to load bookmarks');
+        setPages({ key, ids: [], nextCursor: null, total: 0, isUnavailable });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [api, query, isEnabled, key]);
+
+  const isCurrent = pages.key === key;
+  const nextCursor = isCurrent ? pages.nextCursor : null;
+
+  const loadMore = () => {
+    if (!isEnabled || !nextCursor || loadingCursor === nextCursor) return;
+
+    setLoadingCursor(nextCursor);
+    api
+      .getBookmarkPage({ ...query, cursor: nextCursor, limit: PAGE_SIZE })
+      .then(response => {
+        if (Array.isArray(response)) return;
+        onItemsRef.current(response.items);
+        setPages(prev => {
+          // Ignore pages that arrive after the view has changed
+          if (prev.key !== key || prev.nextCursor !== nextCursor) return prev;
+          const known = new Set(prev.ids);
+          return {
+            key,
+            ids: [
+              ...prev.ids,
+              ...response.items.map(bookmark => bookmark.id).filter(id => !known.has(id)),
+            ],
+            nextCursor: response.nextCursor,
+            total: response.total ?? prev.total,
+          };
+        });
+      })
+      .catch(err => toasts.error(err, 'Failed to load more bookmarks'))
+      .finally(() => setLoadingCursor(current => (current === nextCursor ? null : current)));
+  };
+
+  return {
+    ids: isCurrent ? pages.ids : [],
+    total: isCurrent ? pages.total : null,
+    isLoading: isEnabled && !isCurrent,
+    isLoadingMore: !!nextCursor && loadingCursor === nextCursor,
+    hasMore: !!nextCursor,
+    isUnavailable: isCurrent && !!pages.isUnavailable,
+    loadMore,
+    reload: () => setReloadCount(count => count + 1),
+  };
+}
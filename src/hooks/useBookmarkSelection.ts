@@ -0,0 +1,59 @@
+import { useState } from 'react';
+import { Bookmark } from '../types';
+
+export interface SelectionModifiers {
+  shiftKey: boolean;
+  toggle: boolean;
+}
+
+export function useBookmarkSelection(visibleBookmarks: Bookmark[]) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [anchorId, setAnchorId] = useState<string | null>(null);
+
+  // Only bookmarks that are currently shown count as selected, so changing folder or
+  // search never acts on something the user can no longer see.
+  const selectedIds = visibleBookmarks.filter(b => selected.has(b.id)).map(b => b.id);
+  const selectedBookmarks = visibleBookmarks.filter(b => selected.has(b.id));
+
+  const select = (id: string, { shiftKey, toggle }: SelectionModifiers) => {
+    const anchorIndex = anchorId ? visibleBookmarks.findIndex(b => b.id === anchorId) : -1;
+
+    if (shiftKey && anchorIndex !== -1) {
+      const targetIndex = visibleBookmarks.findIndex(b => b.id === id);
+      const [start, end] =
+        anchorIndex < targetIndex ? [anchorIndex, targetIndex] : [targetIndex, anchorIndex];
+      const range = visibleBookmarks.slice(start, end + 1).map(b => b.id);
+      setSelected(prev => new Set([...(toggle ? prev : []), ...range]));
+      return;
+    }
+
+    setAnchorId(id);
+    setSelected(prev => {
+      const next = new Set(toggle ? prev : []);
+      if (prev.has(id) && (toggle || prev.size === 1)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const isSelected = (id: string) => selected.has(id);
+
+  const selectAll = () => setSelected(new Set(visibleBookmarks.map(b => b.id)));
+
+  const clearSelection = () => {
+    setSelected(new Set());
+    setAnchorId(null);
+  };
+
+  return {
+    selectedIds,
+    selectedBookmarks,
+    isSelected,
+    select,
+    selectAll,
+    clearSelection,
+  };
+}
@@ -1,96 +1,453 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Bookmark } from '../types';
-import { apiClient } from '../services/apiClient';
+import { StorageBackend, FULL_PAGE_SIZE, loadRemainingPages } from '../services/storageBackend';
+import { runConcurrently } from '../services/runConcurrently';
+import { offlineStore } from '../services/offlineStore';
+import { outbox, createLocalId, isNetworkError } from '../services/outbox';
+import { toasts } from '../services/toasts';
+import { folderForNewBookmarks } from '../services/specialFolders';
+import { mergeDuplicateGroup } from '../services/duplicates';
 
-export function useBookmarks(isAuthenticated: boolean, apiKey: string) {
+const BULK_CONCURRENCY = 4;
+
+export interface BulkResult {
+  succeeded: string[];
+  failed: { id: string; error: string }[];
+}
+
+export interface BulkProgress {
+  done: number;
+  total: number;
+}
+
+function toBulkResult(ids: string[], results: PromiseSettledResult<unknown>[]): BulkResult {
+  return results.reduce<BulkResult>(
+    (summary, result, index) =>
+      result.status === 'fulfilled'
+        ? { ...summary, succeeded: [...summary.succeeded, ids[index]] }
+        : {
+            ...summary,
+            failed: [
+              ...summary.failed,
+              {
+                id: ids[index],
+                error: result.reason instanceof Error ? result.reason.message : 'Request failed',
+              },
+            ],
+          },
+    { succeeded: [], failed: [] }
+  );
+}
+
+// How long to wait before trying the API again after it could not be reached
+const RETRY_DELAY = 30000;
+
+// Servers that cannot page answer every request with the whole collection, which is then
+// kept here and filtered in the browser. Servers that can are only asked for everything
+// while needsAll is set, e.g. for views worked out on this device; otherwise the
+// bookmarks arrive a page at a time through mergeBookmarks.
+export function useBookmarks(api: StorageBackend, isAuthenticated: boolean, needsAll: boolean) {
   const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  // Why the last change to a bookmark failed, keyed by bookmark id
+  const [itemErrors, setItemErrors] = useState<Record<string, string>>({});
+  const [reloadCount, setReloadCount] = useState(0);
+  // Whether each server can page, found out with the first request to it
+  const [pagingByServer, setPagingByServer] = useState<Record<string, boolean>>({});
+  // The cache keys whose bookmarks have all been downloaded, or failed to
+  const [completeKey, setCompleteKey] = useState<string | null>(null);
+  const [failedKey, setFailedKey] = useState<string | null>(null);
+  // The cache key whose data is in state; nothing is written back until this is set
+  const loadedCacheKeyRef = useRef<string | null>(null);
+  // The cache key of the bookmarks on screen, which is kept even while a reload is running
+  const shownCacheKeyRef = useRef<string | null>(null);
+  const cacheKey = `bookmarks:${api.id}`;
+  const isPagingSupported = pagingByServer[api.id] ?? null;
+  const isComplete = completeKey === cacheKey;
+  // Everything is downloaded from servers that cannot page, and from others when asked to
+  const wantsAll = isPagingSupported === false || (needsAll && !isComplete);
+  const shouldFetch = isPagingSupported === null || wantsAll;
+
+  // Adds bookmarks loaded elsewhere, replacing the copies already held. Bookmarks with
+  // changes the server has not seen yet are kept as they are.
+  const mergeBookmarks = (items: Bookmark[]) => {
+    if (items.length === 0) return;
+    const hasPending = outbox.getStatus().pendingCount > 0;
+    setBookmarks(prev => {
+      const incoming = new Map(items.map(bookmark => [bookmark.id, bookmark]));
+      const merged = hasPending
+        ? prev
+        : prev.map(bookmark => incoming.get(bookmark.id) ?? bookmark);
+      const known = new Set(prev.map(bookmark => bookmark.id));
+      return [...merged, ...items.filter(bookmark => !known.has(bookmark.id))];
+    });
+  };
+  const mergeBookmarksRef = useRef(mergeBookmarks);
+  useEffect(() => {
+    mergeBookmarksRef.current = mergeBookmarks;
+  });
 
   useEffect(() => {
     let cancelled = false;
-    setIsLoading(true);
-    setError(null);
-
-    apiClient
-      .getBookmarks(apiKey)
-      .then(data => {
-        if (!cancelled) setBookmarks(data);
-      })
-      .catch((err: unknown) => {
-        if (!cancelled) {
-          setError(err instanceof Error ? err.message : 'Failed to load bookmarks');
+    let retryTimer = 0;
+    setIsLoading(shownCacheKeyRef.current !== cacheKey);
+
+    const load = async () => {
+      // Show the cached copy straight away and replace it once the API answers
+      let hasCopy = shownCacheKeyRef.current === cacheKey;
+      if (!hasCopy) {
+        const cached = await offlineStore.readCache<Bookmark[]>(cacheKey);
+        if (cancelled) return;
+        // Another profile's bookmarks should not stay on screen while these load
+        setBookmarks(cached ?? []);
+        if (cached) setIsLoading(false);
+        hasCopy = !!cached;
+        shownCacheKeyRef.current = cacheKey;
+      }
+      if (hasCopy) loadedCacheKeyRef.current = cacheKey;
+
+      if (!shouldFetch) {
+        loadedCacheKeyRef.current = cacheKey;
+        setIsLoading(false);
+        return;
+      }
+
+      try {
+        // Also tells whether the server pages: older servers answer with an array
+        const response = await api.getBookmarkPage({ limit: wantsAll ? FULL_PAGE_SIZE : 1 });
+        outbox.setReachable(true);
+        if (cancelled) return;
+        const isPaging = !Array.isArray(response);
+        setPagingByServer(prev =>
+          prev[api.id] === isPaging ? prev : { ...prev, [api.id]: isPaging }
+        );
+        if (isPaging && !wantsAll) return;
+
+        setFailedKey(null);
+        const data = isPaging ? await loadRemainingPages(api, response) : response;
+        if (cancelled) return;
+        // Keep the local copy while it has changes the server has not seen yet
+        if (hasCopy && outbox.getStatus().pendingCount > 0) {
+          if (isPaging) mergeBookmarksRef.current(data);
+        } else {
+          setBookmarks(data);
         }
-      })
-      .finally(() => {
+        loadedCacheKeyRef.current = cacheKey;
+        setCompleteKey(cacheKey);
+      } catch (err) {
+        if (cancelled) return;
+        if (wantsAll) setFailedKey(cacheKey);
+        if (isNetworkError(err)) {
+          outbox.setReachable(false);
+          // Servers not asked yet whether they page, and downloads still wanted, are
+          // tried again later
+          if (isPagingSupported !== false) {
+            retryTimer = window.setTimeout(() => setReloadCount(count => count + 1), RETRY_DELAY);
+          }
+          if (hasCopy) return;
+        }
+        toasts.error(err, 'Failed to load bookmarks');
+      } finally {
         if (!cancelled) setIsLoading(false);
-      });
+      }
+    };
+    load();
 
     return () => {
       cancelled = true;
+      window.clearTimeout(retryTimer);
+      loadedCacheKeyRef.current = null;
     };
-  }, [isAuthenticated, apiKey]);
+  }, [api, isAuthenticated, cacheKey, reloadCount, shouldFetch, wantsAll, isPagingSupported]);
+
+  useEffect(() => {
+    if (loadedCacheKeyRef.current === cacheKey) {
+      offlineStore.writeCache(cacheKey, bookmarks);
+    }
+  }, [bookmarks, cacheKey]);
+
+  // Everything is downloaded again the next time it is needed
+  const reload = () => {
+    setCompleteKey(null);
+    setReloadCount(count => count + 1);
+  };
+
+  const setItemError = (id: string, message: string | null) =>
+    setItemErrors(prev => {
+      if (!message && !(id in prev)) return prev;
+      const next = { ...prev };
+      if (message) {
+        next[id] = message;
+      } else {
+        delete next[id];
+      }
+      return next;
+    });
+
+  const dismissItemError = (id: string) => setItemError(id, null);
+
+  // Changes show up immediately and are rolled back if the server rejects them. They go
+  // through the outbox, which queues them while the API is unreachable; queued changes are
+  // kept as if the server had accepted them.
+  const saveBookmark = async (bookmark: Bookmark) => {
+    const previous = bookmarks.find(b => b.id === bookmark.id);
+    setBookmarks(prev => prev.map(b => (b.id === bookmark.id ? bookmark : b)));
+
+    try {
+      const outcome = await outbox.send(api, 'updateBookmark', { bookmark });
+      const saved = outcome.queued ? bookmark : outcome.result;
+      // Leave the bookmark alone if it has been changed again in the meantime
+      setBookmarks(prev => prev.map(b => (b === bookmark ? saved : b)));
+      setItemError(bookmark.id, null);
+      return saved;
+    } catch (err) {
+      if (previous) {
+        setBookmarks(prev => prev.map(b => (b === bookmark ? previous : b)));
+      }
+      setItemError(bookmark.id, err instanceof Error ? err.message : 'Failed to save bookmark');
+      throw err;
+    }
+  };
+
+  const removeBookmark = async (id: string) => {
+    const index = bookmarks.findIndex(b => b.id === id);
+    const previous = bookmarks[index];
+    setBookmarks(prev => prev.filter(b => b.id !== id));
+
+    try {
+      await outbox.send(api, 'deleteBookmark', { bookmarkId: id });
+      setItemError(id, null);
+    } catch (err) {
+      if (previous) {
+        setBookmarks(prev =>
+          prev.some(b => b.id === id)
+            ? prev
+            : [...prev.slice(0, index), previous, ...prev.slice(index)]
+        );
+      }
+      setItemError(id, err instanceof Error ? err.message : 'Failed to delete bookmark');
+      throw err;
+    }
+  };
 
   const addBookmark = async (selectedFolder: string | null) => {
     if (!isAuthenticated) return null;
 
     try {
-      const newBookmark = await apiClient.createBookmark(apiKey, {
+      const draft = {
         title: 'New Bookmark',
         url: '',
         description: '',
         thumbnail: '',
         tags: [],
-        folderId:
-          selectedFolder === 'all' || selectedFolder === 'favorites' ? null : selectedFolder,
+        folderId: folderForNewBookmarks(selectedFolder),
         favorite: false,
-      });
+      };
+      const tempId = createLocalId();
+      const outcome = await outbox.send(api, 'createBookmark', { tempId, bookmark: draft });
+      const newBookmark = outcome.queued
+        ? { ...draft, id: tempId, dateAdded: new Date().toISOString() }
+        : outcome.result;
       setBookmarks(prev => [...prev, newBookmark]);
       return newBookmark;
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to create bookmark');
+      toasts.error(err, 'Failed to create bookmark');
+      return null;
+    }
+  };
+
+  // Creates a copy of a deleted bookmark; the server gives it a new id
+  const restoreBookmark = async (bookmark: Bookmark) => {
+    if (!isAuthenticated) return null;
+
+    try {
+      const { id: tempId, ...data } = { ...bookmark, id: createLocalId() };
+      const outcome = await outbox.send(api, 'createBookmark', { tempId, bookmark: data });
+      const restored = outcome.queued ? { ...data, id: tempId } : outcome.result;
+      setBookmarks(prev => [...prev, restored]);
+      return restored;
+    } catch (err) {
+      toasts.error(err, 'Failed to restore bookmark');
       return null;
     }
   };
 
+  // Failures are also reported on the bookmark itself through itemErrors
   const updateBookmark = async (updatedBookmark: Bookmark) => {
-    if (!isAuthenticated) return;
+    if (!isAuthenticated) return false;
 
     try {
-      const saved = await apiClient.updateBookmark(apiKey, updatedBookmark);
-      setBookmarks(prev => prev.map(b => (b.id === saved.id ? saved : b)));
+      await saveBookmark(updatedBookmark);
+      return true;
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to update bookmark');
+      toasts.error(err, 'Failed to update bookmark');
+      return false;
     }
   };
 
   const deleteBookmark = async (id: string) => {
-    if (!isAuthenticated) return;
+    if (!isAuthenticated) return false;
 
     try {
-      await apiClient.deleteBookmark(apiKey, id);
-      setBookmarks(prev => prev.filter(b => b.id !== id));
+      await removeBookmark(id);
+      return true;
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to delete bookmark');
+      toasts.error(err, 'Failed to delete bookmark');
+      return false;
     }
   };
 
+  const moveBookmarksToFolder = async (fromFolderIds: string[], toFolderId: string | null) => {
+    if (!isAuthenticated) return false;
+
+    const affected = bookmarks.filter(b => b.folderId && fromFolderIds.includes(b.folderId));
+
+    try {
+      for (const bookmark of affected) {
+        await saveBookmark({ ...bookmark, folderId: toFolderId });
+      }
+      return true;
+    } catch (err) {
+      toasts.error(err, 'Failed to move bookmarks');
+      return false;
+    }
+  };
+
+  const deleteBookmarksInFolders = async (folderIds: string[]) => {
+    if (!isAuthenticated) return false;
+
+    const affected = bookmarks.filter(b => b.folderId && folderIds.includes(b.folderId));
+
+    try {
+      for (const bookmark of affected) {
+        await removeBookmark(bookmark.id);
+      }
+      return true;
+    } catch (err) {
+      toasts.error(err, 'Failed to delete bookmarks');
+      return false;
+    }
+  };
+
+  // Keeps one bookmark of a group of duplicates, with the others merged into it, and
+  // deletes the rest
+  const mergeDuplicates = async (group: Bookmark[], keepId: string, folderId: string | null) => {
+    if (!isAuthenticated) return false;
+
+    const keep = group.find(b => b.id === keepId);
+    if (!keep) return false;
+
+    try {
+      await saveBookmark(mergeDuplicateGroup(group, keep, folderId));
+      for (const bookmark of group) {
+        if (bookmark.id !== keepId) await removeBookmark(bookmark.id);
+      }
+      return true;
+    } catch (err) {
+      toasts.error(err, 'Failed to merge duplicates');
+      return false;
+    }
+  };
+
+  const bulkUpdate = async (
+    ids: string[],
+    update: (bookmark: Bookmark) => Bookmark,
+    onProgress?: (progress: BulkProgress) => void
+  ): Promise<BulkResult> => {
+    if (!isAuthenticated) return { succeeded: [], failed: [] };
+
+    const targets = bookmarks.filter(b => ids.includes(b.id));
+    let done = 0;
+    const results = await runConcurrently(targets, BULK_CONCURRENCY, async bookmark => {
+      try {
+        return await saveBookmark(update(bookmark));
+      } finally {
+        onProgress?.({ done: ++done, total: targets.length });
+      }
+    });
+
+    const summary = toBulkResult(
+      targets.map(b => b.id),
+      results
+    );
+    if (summary.failed.length > 0) {
+      toasts.show({
+        type: 'error',
+        message: `${summary.failed.length} of ${targets.length} bookmarks could not be updated`,
+      });
+    }
+    return summary;
+  };
+
+  const bulkDelete = async (ids: string[]): Promise<BulkResult> => {
+    if (!isAuthenticated) return { succeeded: [], failed: [] };
+
+    const results = await runConcurrently(ids, BULK_CONCURRENCY, removeBookmark);
+
+    const summary = toBulkResult(ids, results);
+    if (summary.failed.length > 0) {
+      toasts.show({
+        type: 'error',
+        message: `${summary.failed.length} of ${ids.length} bookmarks could not be deleted`,
+      });
+    }
+    return summary;
+  };
+
   const toggleFavorite = async (id: string) => {
-    if (!isAuthenticated) return;
+    if (!isAuthenticated) return false;
+
+    const bookmark = bookmarks.find(b => b.id === id);
+    if (!bookmark) return false;
+
+    return updateBookmark({ ...bookmark, favorite: !bookmark.favorite });
+  };
+
+  const setFavorite = async (id: string, favorite: boolean) => {
+    const bookmark = bookmarks.find(b => b.id === id);
+    if (!bookmark) return false;
+    if (bookmark.favorite === favorite) return true;
+
+    return updateBookmark({ ...bookmark, favorite });
+  };
+
+  const moveBookmark = async (id: string, folderId: string | null) => {
+    const bookmark = bookmarks.find(b => b.id === id);
+    if (!bookmark || bookmark.folderId === folderId) return;
+
+    await updateBookmark({ ...bookmark, folderId });
+  };
 
+  const addTagToBookmark = async (id: string, tag: string) => {
     const bookmark = bookmarks.find(b => b.id === id);
-    if (!bookmark) return;
+    if (!bookmark || bookmark.tags.includes(tag)) return;
 
-    await updateBookmark({ ...bookmark, favorite: !bookmark.favorite });
+    await updateBookmark({ ...bookmark, tags: [...bookmark.tags, tag] });
   };
 
   return {
     bookmarks,
     isLoading,
-    error,
+    isPagingSupported,
+    // Set once every bookmark has been downloaded, rather than only some pages
+    isComplete,
+    isLoadingAll: needsAll && !isComplete && failedKey !== cacheKey,
+    itemErrors,
+    dismissItemError,
+    reload,
+    mergeBookmarks,
     addBookmark,
+    restoreBookmark,
     updateBookmark,
     deleteBookmark,
     toggleFavorite,
+    setFavorite,
+    moveBookmark,
+    addTagToBookmark,
+    moveBookmarksToFolder,
+    deleteBookmarksInFolders,
+    mergeDuplicates,
+    bulkUpdate,
+    bulkDelete,
   };
 }
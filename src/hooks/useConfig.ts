@@ -1,12 +1,23 @@
 import { useState, useEffect } from 'react';
 import { AppConfig } from '../types';
+import { isSortOrder } from '../services/bookmarkSort';
+import { createProfile, migrateProfiles, DEFAULT_PROFILE_ID } from '../services/profiles';
+import { DEFAULT_LINK_CHECK_URL } from '../services/apiClient';
+import { DEFAULT_TAG_NORMALIZATION } from '../services/tagNormalization';
+import { DEFAULT_SHORTCUTS, withDefaultShortcuts } from '../services/shortcuts';
 
 const defaultConfig: AppConfig = {
   darkMode: false,
   showSidebar: window.innerWidth >= 768,
   viewMode: 'grid',
+  sortOrder: 'dateNewest',
   flattenSubfolders: true,
-  apiKey: '',
+  profiles: [createProfile([], { id: DEFAULT_PROFILE_ID, label: 'Default' })],
+  activeProfileId: DEFAULT_PROFILE_ID,
+  linkCheckUrl: DEFAULT_LINK_CHECK_URL,
+  tagNormalization: DEFAULT_TAG_NORMALIZATION,
+  syncSavedSearches: false,
+  shortcuts: DEFAULT_SHORTCUTS,
 };
 
 export function useConfig() {
@@ -14,15 +25,20 @@ export function useConfig() {
 
   function loadConfig(): AppConfig {
     const savedConfig = localStorage.getItem('bookmarkManagerConfig');
+    let config = defaultConfig;
     if (savedConfig) {
       try {
-        return JSON.parse(savedConfig);
+        // Fill in settings added since the config was saved
+        const saved = migrateProfiles(JSON.parse(savedConfig));
+        config = { ...defaultConfig, ...saved, shortcuts: withDefaultShortcuts(saved.shortcuts) };
       } catch (e) {
         console.error('Failed to parse saved config:', e);
-        return defaultConfig;
       }
     }
-    return defaultConfig;
+
+    // A shared link's sort order wins over the saved one
+    const sortParam = new URLSearchParams(window.location.search).get('sort');
+    return isSortOrder(sortParam) ? { ...config, sortOrder: sortParam } : config;
   }
 
   useEffect(() => {
@@ -41,6 +57,14 @@ export function useConfig() {
     localStorage.setItem('bookmarkManagerConfig', JSON.stringify(config));
   }, [config]);
 
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    if (url.searchParams.get('sort') !== config.sortOrder) {
+      url.searchParams.set('sort', config.sortOrder);
+      window.history.replaceState(window.history.state, '', url.toString());
+    }
+  }, [config.sortOrder]);
+
   useEffect(() => {
     if (config.darkMode) {
       document.documentElement.classList.add('dark');
@@ -8,7 +8,8 @@ export function useFolderEditing(
   const [editingFolderId, setEditingFolderId] = useState<string | null>(null);
   const [editingFolderName, setEditingFolderName] = useState('');
 
-  const startEditing = (folder: Folder, e: React.MouseEvent) => {
+  // Also used for other named items, such as smart folders
+  const startEditing = (folder: Pick<Folder, 'id' | 'name'>, e: React.MouseEvent) => {
     e.stopPropagation();
     if (!isAuthenticated) return;
     setEditingFolderId(folder.id);
@@ -1,55 +1,206 @@
-import { useState, useEffect } from 'react';
-import { Folder } from '../types';
-import { apiClient } from '../services/apiClient';
+import { useState, useEffect, useRef } from 'react';
+import { Folder, FolderDeleteStrategy } from '../types';
+import { StorageBackend } from '../services/storageBackend';
+import { offlineStore } from '../services/offlineStore';
+import { outbox, createLocalId, isNetworkError } from '../services/outbox';
+import { toasts } from '../services/toasts';
 
-export function useFolders(isAuthenticated: boolean, apiKey: string) {
+export function useFolders(api: StorageBackend, isAuthenticated: boolean) {
   const [folders, setFolders] = useState<Folder[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  // Why the last change to a folder failed, keyed by folder id
+  const [itemErrors, setItemErrors] = useState<Record<string, string>>({});
+  const [reloadCount, setReloadCount] = useState(0);
+  // The cache key whose data is in state; nothing is written back until this is set
+  const loadedCacheKeyRef = useRef<string | null>(null);
+  // The cache key of the folders on screen, which is kept even while a reload is running
+  const shownCacheKeyRef = useRef<string | null>(null);
+  const cacheKey = `folders:${api.id}`;
 
   useEffect(() => {
     let cancelled = false;
     setIsLoading(true);
-    setError(null);
-
-    apiClient
-      .getFolders(apiKey)
-      .then(data => {
-        if (!cancelled) setFolders(data);
-      })
-      .catch((err: unknown) => {
-        if (!cancelled) {
-          setError(err instanceof Error ? err.message : 'Failed to load folders');
+
+    const load = async () => {
+      const cached = await offlineStore.readCache<Folder[]>(cacheKey);
+      if (cancelled) return;
+      if (cached) {
+        setFolders(cached);
+        setIsLoading(false);
+        loadedCacheKeyRef.current = cacheKey;
+      } else if (shownCacheKeyRef.current !== cacheKey) {
+        // Another profile's folders should not stay on screen while these load
+        setFolders([]);
+      }
+      shownCacheKeyRef.current = cacheKey;
+
+      try {
+        const data = await api.getFolders();
+        outbox.setReachable(true);
+        if (cancelled || (cached && outbox.getStatus().pendingCount > 0)) return;
+        setFolders(data);
+        loadedCacheKeyRef.current = cacheKey;
+      } catch (err) {
+        if (cancelled) return;
+        if (isNetworkError(err)) {
+          outbox.setReachable(false);
+          if (cached) return;
         }
-      })
-      .finally(() => {
+        toasts.error(err, 'Failed to load folders');
+      } finally {
         if (!cancelled) setIsLoading(false);
-      });
+      }
+    };
+    load();
 
     return () => {
       cancelled = true;
+      loadedCacheKeyRef.current = null;
     };
-  }, [isAuthenticated, apiKey]);
+  }, [api, isAuthenticated, cacheKey, reloadCount]);
+
+  useEffect(() => {
+    if (loadedCacheKeyRef.current === cacheKey) {
+      offlineStore.writeCache(cacheKey, folders);
+    }
+  }, [folders, cacheKey]);
+
+  const reload = () => setReloadCount(count => count + 1);
+
+  const setItemError = (id: string, message: string | null) =>
+    setItemErrors(prev => {
+      if (!message && !(id in prev)) return prev;
+      const next = { ...prev };
+      if (message) {
+        next[id] = message;
+      } else {
+        delete next[id];
+      }
+      return next;
+    });
 
+  const dismissItemError = (id: string) => setItemError(id, null);
+
+  // New folders show up right away under a local id, which is swapped for the server's
+  // once it answers; a failed create removes the folder again.
   const createFolder = async (name: string, parentId: string | null) => {
-    if (!isAuthenticated) return;
+    if (!isAuthenticated) return null;
+
+    const tempId = createLocalId();
+    const optimistic: Folder = { id: tempId, name, parentId };
+    setFolders(prev => [...prev, optimistic]);
 
     try {
-      const newFolder = await apiClient.createFolder(apiKey, name, parentId);
-      setFolders(prev => [...prev, newFolder]);
+      const outcome = await outbox.send(api, 'createFolder', { tempId, name, parentId });
+      if (outcome.queued) return optimistic;
+
+      setFolders(prev => prev.map(f => (f.id === tempId ? outcome.result : f)));
+      return outcome.result;
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to create folder');
+      setFolders(prev => prev.filter(f => f.id !== tempId));
+      toasts.error(err, `Failed to create folder "${name}"`);
+      return null;
     }
   };
 
   const updateFolder = async (folderId: string, newName: string) => {
-    if (!isAuthenticated) return;
+    if (!isAuthenticated) return false;
+
+    const previous = folders.find(f => f.id === folderId);
+    if (!previous) return false;
+    const renamed = { ...previous, name: newName };
+    setFolders(prev => prev.map(f => (f.id === folderId ? renamed : f)));
 
     try {
-      const updated = await apiClient.updateFolder(apiKey, folderId, newName);
-      setFolders(prev => prev.map(f => (f.id === folderId ? updated : f)));
+      const outcome = await outbox.send(api, 'updateFolder', { folderId, name: newName });
+      if (!outcome.queued) {
+        // Leave the folder alone if it has been changed again in the meantime
+        setFolders(prev => prev.map(f => (f === renamed ? outcome.result : f)));
+      }
+      setItemError(folderId, null);
+      return true;
+    } catch (err) {
+      setFolders(prev => prev.map(f => (f === renamed ? previous : f)));
+      setItemError(folderId, err instanceof Error ? err.message : 'Failed to rename folder');
+      toasts.error(err, 'Failed to rename folder');
+      return false;
+    }
+  };
+
+  const isDescendantOrSelf = (folderId: string, candidateId: string | null): boolean => {
+    if (!candidateId) return false;
+    return candidateId === folderId || getAllChildFolderIds(folderId).includes(candidateId);
+  };
+
+  const moveFolder = async (folderId: string, newParentId: string | null) => {
+    if (!isAuthenticated) return false;
+
+    if (isDescendantOrSelf(folderId, newParentId)) {
+      toasts.show({
+        type: 'error',
+        message: 'A folder cannot be moved into itself or one of its subfolders',
+      });
+      return false;
+    }
+
+    const folder = folders.find(f => f.id === folderId);
+    if (!folder) return false;
+
+    try {
+      const outcome = await outbox.send(api, 'moveFolder', {
+        folderId,
+        name: folder.name,
+        parentId: newParentId,
+      });
+      const moved = outcome.queued ? {} : outcome.result;
+      setFolders(prev =>
+        prev.map(f => (f.id === folderId ? { ...f, ...moved, parentId: newParentId } : f))
+      );
+      return true;
+    } catch (err) {
+      toasts.error(err, 'Failed to move folder');
+      return false;
+    }
+  };
+
+  // Bookmarks are handled by the caller before this runs; this only takes care of the
+  // folder itself and its subfolders.
+  const deleteFolder = async (folderId: string, strategy: FolderDeleteStrategy) => {
+    if (!isAuthenticated) return false;
+
+    const folder = folders.find(f => f.id === folderId);
+    if (!folder) return false;
+
+    try {
+      if (strategy === 'cascade') {
+        // Delete the deepest folders first so no folder is removed while it still has children
+        const descendants = getAllChildFolderIds(folderId).reverse();
+        for (const descendantId of descendants) {
+          await outbox.send(api, 'deleteFolder', { folderId: descendantId });
+          setFolders(prev => prev.filter(f => f.id !== descendantId));
+        }
+      } else {
+        const newParentId = strategy === 'moveToParent' ? folder.parentId : null;
+        const children = folders.filter(f => f.parentId === folderId);
+        for (const child of children) {
+          const outcome = await outbox.send(api, 'moveFolder', {
+            folderId: child.id,
+            name: child.name,
+            parentId: newParentId,
+          });
+          const moved = outcome.queued ? {} : outcome.result;
+          setFolders(prev =>
+            prev.map(f => (f.id === child.id ? { ...f, ...moved, parentId: newParentId } : f))
+          );
+        }
+      }
+
+      await outbox.send(api, 'deleteFolder', { folderId });
+      setFolders(prev => prev.filter(f => f.id !== folderId));
+      return true;
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to update folder');
+      toasts.error(err, 'Failed to delete folder');
+      return false;
     }
   };
 
@@ -57,6 +208,8 @@ export function useFolders(isAuthenticated: boolean, apiKey: string) {
     if (!folderId) return 'All Bookmarks';
     if (folderId === 'all') return 'All Bookmarks';
     if (folderId === 'favorites') return 'Favorites';
+    if (folderId === 'broken-links') return 'Broken Links';
+    if (folderId === 'duplicates') return 'Duplicates';
 
     const folder = folders.find(f => f.id === folderId);
     if (!folder) return 'Unknown Folder';
@@ -83,9 +236,14 @@ export function useFolders(isAuthenticated: boolean, apiKey: string) {
   return {
     folders,
     isLoading,
-    error,
+    itemErrors,
+    dismissItemError,
+    reload,
     createFolder,
     updateFolder,
+    moveFolder,
+    deleteFolder,
+    isDescendantOrSelf,
     getFolderPathName,
     getAllChildFolderIds,
   };
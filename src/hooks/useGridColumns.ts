@@ -0,0 +1,20 @@
+import { useSyncExternalStore } from 'react';
+
+// Matches the grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 breakpoints used by the bookmark grid
+const WIDE = window.matchMedia('(min-width: 1024px)');
+const MEDIUM = window.matchMedia('(min-width: 640px)');
+
+const subscribe = (onChange: () => void) => {
+  WIDE.addEventListener('change', onChange);
+  MEDIUM.addEventListener('change', onChange);
+  return () => {
+    WIDE.removeEventListener('change', onChange);
+    MEDIUM.removeEventListener('change', onChange);
+  };
+};
+
+const getColumns = () => (WIDE.matches ? 3 : MEDIUM.matches ? 2 : 1);
+
+export function useGridColumns() {
+  return useSyncExternalStore(subscribe, getColumns);
+}
@@ -0,0 +1,34 @@
+import { useState, useEffect, useRef } from 'react';
+
+// Calls onLoadMore when the sentinel element comes within reach of the visible part of the
+// scrolling element. It is asked again whenever more items arrive, in case the sentinel is
+// still in view after they were rendered.
+export function useInfiniteScroll(
+  scrollElement: HTMLElement | null,
+  onLoadMore: () => void,
+  isEnabled: boolean,
+  itemCount: number
+) {
+  const [sentinel, setSentinel] = useState<HTMLElement | null>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+
+  useEffect(() => {
+    onLoadMoreRef.current = onLoadMore;
+  });
+
+  useEffect(() => {
+    if (!scrollElement || !sentinel || !isEnabled) return;
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) onLoadMoreRef.current();
+      },
+      { root: scrollElement, rootMargin: '800px 0px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [scrollElement, sentinel, isEnabled, itemCount]);
+
+  // Attach as the ref of an element placed after the last item
+  return setSentinel;
+}
@@ -0,0 +1,79 @@
+import { useEffect, useRef } from 'react';
+import { ShortcutAction, Shortcuts } from '../types';
+import { SEQUENCE_TIMEOUT, isEditingText, keyName, matchShortcut } from '../services/shortcuts';
+
+export type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>;
+
+// Buttons and links handle Enter and Space themselves
+const activatesTarget = (target: EventTarget | null, key: string) =>
+  (key === 'Enter' || key === 'Space') &&
+  target instanceof HTMLElement &&
+  !!target.closest('button, a[href], summary, [role="button"]');
+
+// Runs the handler of the action whose keys are pressed anywhere on the page, except while
+// typing, together with Ctrl, Alt or Cmd, or while isEnabled is false, e.g. behind a modal
+export function useKeyboardShortcuts(
+  shortcuts: Shortcuts,
+  handlers: ShortcutHandlers,
+  isEnabled: boolean
+) {
+  const shortcutsRef = useRef(shortcuts);
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    shortcutsRef.current = shortcuts;
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (!isEnabled) return;
+
+    // The keys of a sequence pressed so far
+    let pending: string[] = [];
+    let timer = 0;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const key = keyName(e);
+      if (['Shift', 'Control', 'Alt', 'Meta'].includes(key)) return;
+      if (
+        e.defaultPrevented ||
+        e.isComposing ||
+        e.ctrlKey ||
+        e.metaKey ||
+        e.altKey ||
+        isEditingText(e.target) ||
+        activatesTarget(e.target, key)
+      ) {
+        pending = [];
+        return;
+      }
+
+      window.clearTimeout(timer);
+      let match = matchShortcut(shortcutsRef.current, [...pending, key]);
+      // A key that does not continue the sequence may start a new one
+      if (match === null && pending.length > 0) {
+        pending = [];
+        match = matchShortcut(shortcutsRef.current, [key]);
+      }
+
+      if (match === 'partial') {
+        e.preventDefault();
+        pending = [...pending, key];
+        timer = window.setTimeout(() => (pending = []), SEQUENCE_TIMEOUT);
+        return;
+      }
+      pending = [];
+
+      const handler = match && handlersRef.current[match];
+      if (handler) {
+        e.preventDefault();
+        handler();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.clearTimeout(timer);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isEnabled]);
+}
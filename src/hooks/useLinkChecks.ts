@@ -0,0 +1,114 @@
+import { useState, useEffect, useRef } from 'react';
+import { Bookmark, LinkCheck } from '../types';
+import { checkLink } from '../services/apiClient';
+import { ApiError } from '../services/apiError';
+import { offlineStore } from '../services/offlineStore';
+import { runConcurrently } from '../services/runConcurrently';
+import { StorageBackend } from '../services/storageBackend';
+import { toasts } from '../services/toasts';
+
+const CHECK_CONCURRENCY = 4;
+
+export interface LinkCheckProgress {
+  done: number;
+  total: number;
+}
+
+// Checks bookmark links through the configured link check service and remembers the
+// outcome per bookmark, on this device, for each storage backend.
+export function useLinkChecks(api: StorageBackend, checkUrl: string) {
+  const [checks, setChecks] = useState<Record<string, LinkCheck>>({});
+  const [progress, setProgress] = useState<LinkCheckProgress | null>(null);
+  // The cache key whose data is in state; nothing is written back until this is set
+  const loadedCacheKeyRef = useRef<string | null>(null);
+  // Incremented to stop the running check
+  const runRef = useRef(0);
+  // A check stops when the backend changes, since its results belong to the previous one
+  const activeCacheKeyRef = useRef<string | null>(null);
+  const cacheKey = `linkChecks:${api.id}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    activeCacheKeyRef.current = cacheKey;
+    offlineStore.readCache<Record<string, LinkCheck>>(cacheKey).then(cached => {
+      if (cancelled) return;
+      setChecks(cached ?? {});
+      loadedCacheKeyRef.current = cacheKey;
+    });
+    return () => {
+      cancelled = true;
+      loadedCacheKeyRef.current = null;
+    };
+  }, [cacheKey]);
+
+  useEffect(() => {
+    if (loadedCacheKeyRef.current === cacheKey) {
+      offlineStore.writeCache(cacheKey, checks);
+    }
+  }, [checks, cacheKey]);
+
+  const checkLinks = async (bookmarks: Bookmark[]) => {
+    if (!checkUrl.trim()) {
+      toasts.show({ type: 'error', message: 'Set the link checker URL in the settings first' });
+      return;
+    }
+
+    const run = ++runRef.current;
+    const isCurrentRun = () => runRef.current === run && activeCacheKeyRef.current === cacheKey;
+    const targets = bookmarks.filter(bookmark => bookmark.url);
+    let done = 0;
+    let checkerError: unknown = null;
+    setProgress({ done, total: targets.length });
+
+    await runConcurrently(targets, CHECK_CONCURRENCY, async bookmark => {
+      if (!isCurrentRun()) return;
+      try {
+        const response = await checkLink(checkUrl, bookmark.url);
+        if (!isCurrentRun()) return;
+        const check: LinkCheck = {
+          url: bookmark.url,
+          status: response.status,
+          finalUrl: response.finalUrl || null,
+          checkedAt: new Date().toISOString(),
+          ...(response.error ? { error: response.error } : {}),
+        };
+        setChecks(prev => ({ ...prev, [bookmark.id]: check }));
+        setProgress({ done: ++done, total: targets.length });
+      } catch (err) {
+        // A failing link is reported in the response, so errors mean the checker itself
+        // is unavailable and there is no point in asking it about the remaining links
+        if (!isCurrentRun()) return;
+        checkerError = err;
+        runRef.current++;
+      }
+    });
+
+    if (checkerError) {
+      toasts.show({
+        type: 'error',
+        message:
+          checkerError instanceof ApiError && checkerError.status === 0
+            ? 'Could not reach the link checker'
+            : `The link checker failed${checkerError instanceof Error ? `: ${checkerError.message}` : ''}`,
+      });
+      setProgress(null);
+    } else if (runRef.current === run) {
+      // Otherwise a newer check, or stopChecking, has taken over the progress
+      if (isCurrentRun()) toasts.show({ type: 'success', message: `Checked ${done} links` });
+      setProgress(null);
+    }
+  };
+
+  const stopChecking = () => {
+    runRef.current++;
+    setProgress(null);
+  };
+
+  return {
+    checks,
+    progress,
+    isChecking: progress !== null,
+    checkLinks,
+    stopChecking,
+  };
+}
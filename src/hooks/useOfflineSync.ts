@@ -0,0 +1,81 @@
+import { useState, useEffect, useRef } from 'react';
+import { outbox } from '../services/outbox';
+import { toasts } from '../services/toasts';
+import { StorageBackend } from '../services/storageBackend';
+
+// How long to wait before trying the API again after it could not be reached
+const RETRY_DELAY = 30000;
+
+export interface OfflineState {
+  isOffline: boolean;
+  pendingCount: number;
+  isSyncing: boolean;
+}
+
+// Replays the offline outbox whenever the API looks reachable and calls onResync once the
+// queued changes went through, or when the connection comes back, so the caller can
+// reload fresh data from the server.
+export function useOfflineSync(
+  api: StorageBackend,
+  isAuthenticated: boolean,
+  onResync: () => void
+): OfflineState {
+  const [status, setStatus] = useState(outbox.getStatus());
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  // Set when replaying failed for a reason other than the network, e.g. the outbox could not
+  // be read, so the next attempt waits instead of failing again right away
+  const [hasReplayFailed, setHasReplayFailed] = useState(false);
+  const onResyncRef = useRef(onResync);
+
+  useEffect(() => {
+    onResyncRef.current = onResync;
+  });
+
+  useEffect(() => outbox.subscribe(setStatus), []);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      setHasReplayFailed(false);
+      if (outbox.getStatus().pendingCount === 0) onResyncRef.current();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const { pendingCount, isSyncing, isReachable } = status;
+
+  useEffect(() => {
+    if (!isAuthenticated || !isOnline || pendingCount === 0 || isSyncing) return;
+
+    const timer = window.setTimeout(
+      () => {
+        outbox
+          .replay(api)
+          .then(({ synced, failed }) => {
+            setHasReplayFailed(false);
+            if (synced + failed > 0) onResyncRef.current();
+          })
+          // The changes stay queued and are tried again later
+          .catch(err => {
+            setHasReplayFailed(true);
+            toasts.error(err, 'Failed to send the changes made offline');
+          });
+      },
+      isReachable && !hasReplayFailed ? 0 : RETRY_DELAY
+    );
+    return () => window.clearTimeout(timer);
+  }, [api, isAuthenticated, isOnline, pendingCount, isSyncing, isReachable, hasReplayFailed]);
+
+  return {
+    isOffline: !isOnline || !isReachable,
+    pendingCount,
+    isSyncing,
+  };
+}
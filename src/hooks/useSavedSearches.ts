@@ -0,0 +1,146 @@
+import { useState, useEffect, useRef } from 'react';
+import { BookmarkFilter } from '../services/bookmarkFilter';
+import { offlineStore } from '../services/offlineStore';
+import { ApiError } from '../services/apiError';
+import { outbox, isNetworkError } from '../services/outbox';
+import { SavedSearch, createSavedSearch, moveSavedSearch } from '../services/savedSearches';
+import { StorageBackend } from '../services/storageBackend';
+import { toasts } from '../services/toasts';
+
+const isUnsupported = (err: unknown) => err instanceof ApiError && err.code === 'not_found';
+
+interface CachedSavedSearches {
+  searches: SavedSearch[];
+  // Changed on this device since the API last accepted the list
+  isPending: boolean;
+}
+
+// Smart folders, kept on this device for each storage backend and, when syncing is on and
+// the backend supports it, on the API as well. The API's list wins when loading, unless
+// this device has changes it could not send yet. Servers that answer 404 for
+// /saved-searches are treated as not supporting it, and the list stays on this device.
+export function useSavedSearches(api: StorageBackend, isSyncEnabled: boolean) {
+  const [saved, setSaved] = useState<CachedSavedSearches>({ searches: [], isPending: false });
+  // The cache key of the server found not to support syncing
+  const [unsupportedKey, setUnsupportedKey] = useState<string | null>(null);
+  // The cache key whose data is in state; nothing is written back until this is set
+  const loadedCacheKeyRef = useRef<string | null>(null);
+  const cacheKey = `savedSearches:${api.id}`;
+  const { getSavedSearches, replaceSavedSearches } = api;
+  const canSync =
+    isSyncEnabled && !!getSavedSearches && !!replaceSavedSearches && unsupportedKey !== cacheKey;
+
+  const upload = async (searches: SavedSearch[]) => {
+    if (!replaceSavedSearches) return;
+    try {
+      await replaceSavedSearches(searches);
+      setSaved(prev => (prev.searches === searches ? { searches, isPending: false } : prev));
+    } catch (err) {
+      if (isUnsupported(err)) {
+        setUnsupportedKey(cacheKey);
+        setSaved(prev => (prev.searches === searches ? { searches, isPending: false } : prev));
+        return;
+      }
+      // Sent again with the next change, when the connection comes back, or the next time
+      // the list is loaded
+      setSaved(prev => (prev.searches === searches ? { searches, isPending: true } : prev));
+      if (isNetworkError(err)) {
+        outbox.setReachable(false);
+      } else {
+        toasts.error(err, 'Failed to save smart folders');
+      }
+    }
+  };
+  const uploadRef = useRef(upload);
+  useEffect(() => {
+    uploadRef.current = upload;
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      const cached = (await offlineStore.readCache<CachedSavedSearches>(cacheKey)) ?? {
+        searches: [],
+        isPending: false,
+      };
+      if (cancelled) return;
+      setSaved(cached);
+      loadedCacheKeyRef.current = cacheKey;
+      if (!canSync || !getSavedSearches) return;
+
+      if (cached.isPending) {
+        uploadRef.current(cached.searches);
+        return;
+      }
+      try {
+        const searches = await getSavedSearches();
+        if (!cancelled) setSaved({ searches, isPending: false });
+      } catch (err) {
+        if (cancelled || isNetworkError(err)) return;
+        if (isUnsupported(err)) {
+          setUnsupportedKey(cacheKey);
+        } else {
+          toasts.error(err, 'Failed to load smart folders');
+        }
+      }
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+      loadedCacheKeyRef.current = null;
+    };
+  }, [cacheKey, canSync, getSavedSearches]);
+
+  useEffect(() => {
+    if (loadedCacheKeyRef.current === cacheKey) {
+      offlineStore.writeCache(cacheKey, saved);
+    }
+  }, [saved, cacheKey]);
+
+  // Changes that could not be sent go out once the API can be reached again
+  useEffect(() => {
+    if (!canSync || !saved.isPending) return;
+
+    const retry = () => uploadRef.current(saved.searches);
+    let wasReachable = outbox.getStatus().isReachable;
+    const unsubscribe = outbox.subscribe(({ isReachable }) => {
+      if (isReachable && !wasReachable) retry();
+      wasReachable = isReachable;
+    });
+    window.addEventListener('online', retry);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', retry);
+    };
+  }, [canSync, saved]);
+
+  const change = (searches: SavedSearch[]) => {
+    setSaved({ searches, isPending: canSync });
+    if (canSync) upload(searches);
+  };
+
+  const addSavedSearch = (name: string, search: string, filter: BookmarkFilter) => {
+    const created = createSavedSearch(name, search, filter);
+    change([...saved.searches, created]);
+    return created;
+  };
+
+  const renameSavedSearch = (id: string, name: string) =>
+    change(saved.searches.map(search => (search.id === id ? { ...search, name } : search)));
+
+  const reorderSavedSearch = (id: string, offset: number) =>
+    change(moveSavedSearch(saved.searches, id, offset));
+
+  const deleteSavedSearch = (id: string) =>
+    change(saved.searches.filter(search => search.id !== id));
+
+  return {
+    savedSearches: saved.searches,
+    addSavedSearch,
+    renameSavedSearch,
+    reorderSavedSearch,
+    deleteSavedSearch,
+  };
+}
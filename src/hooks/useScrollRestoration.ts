@@ -0,0 +1,19 @@
+import { useLayoutEffect } from 'react';
+
+const savedScrollPositions = new Map<string, number>();
+
+// Remembers how far the element was scrolled for each key, e.g. per folder, and returns
+// there when the key comes back
+export function useScrollRestoration(scrollElement: HTMLElement | null, key: string) {
+  useLayoutEffect(() => {
+    if (!scrollElement) return;
+
+    scrollElement.scrollTo({ top: savedScrollPositions.get(key) ?? 0 });
+
+    // Recorded while scrolling, because once the key changes the shorter content of the new
+    // key may already have pulled scrollTop back
+    const handleScroll = () => savedScrollPositions.set(key, scrollElement.scrollTop);
+    scrollElement.addEventListener('scroll', handleScroll, { passive: true });
+    return () => scrollElement.removeEventListener('scroll', handleScroll);
+  }, [scrollElement, key]);
+}
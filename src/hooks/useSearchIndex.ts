@@ -0,0 +1,85 @@
+import { useState, useEffect, useRef } from 'react';
+import { Bookmark } from '../types';
+import { SearchWorkerRequest, SearchWorkerResponse } from '../services/searchIndex';
+
+export interface RankedSearch {
+  termMatches: Record<string, Set<string>>;
+  scores: Record<string, number>;
+  matchedWords: Record<string, string[]>;
+}
+
+// Keeps an inverted index of the bookmarks in a Web Worker and queries it for the given
+// free-text terms. Returns null while there is nothing to rank or the answer for the
+// current terms has not arrived yet.
+export function useSearchIndex(bookmarks: Bookmark[], terms: string[]): RankedSearch | null {
+  const workerRef = useRef<Worker | null>(null);
+  const indexedRef = useRef<Map<string, Bookmark>>(new Map());
+  const requestKeysRef = useRef<Map<number, string>>(new Map());
+  const latestRequestRef = useRef(0);
+  const [response, setResponse] = useState<{ key: string; search: RankedSearch } | null>(null);
+
+  const termsKey = JSON.stringify(terms);
+
+  useEffect(() => {
+    const worker = new Worker(new URL('../workers/searchIndex.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+    const requestKeys = requestKeysRef.current;
+
+    worker.onmessage = (event: MessageEvent<SearchWorkerResponse>) => {
+      const { requestId, result } = event.data;
+      const key = requestKeys.get(requestId);
+      requestKeys.delete(requestId);
+      if (requestId !== latestRequestRef.current || key === undefined) return;
+
+      setResponse({
+        key,
+        search: {
+          termMatches: Object.fromEntries(
+            Object.entries(result.termMatches).map(([term, ids]) => [term, new Set(ids)])
+          ),
+          scores: result.scores,
+          matchedWords: result.matchedWords,
+        },
+      });
+    };
+
+    workerRef.current = worker;
+    // A fresh worker starts with an empty index
+    indexedRef.current = new Map();
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      requestKeys.clear();
+    };
+  }, []);
+
+  useEffect(() => {
+    const worker = workerRef.current;
+    if (!worker) return;
+
+    // Only send what changed since the last update
+    const indexed = indexedRef.current;
+    const current = new Map(bookmarks.map(b => [b.id, b]));
+    const upserts = bookmarks.filter(b => indexed.get(b.id) !== b);
+    const removals = Array.from(indexed.keys()).filter(id => !current.has(id));
+
+    if (upserts.length > 0 || removals.length > 0) {
+      const update: SearchWorkerRequest = { type: 'update', upserts, removals };
+      worker.postMessage(update);
+      indexedRef.current = current;
+    }
+
+    const parsedTerms: string[] = JSON.parse(termsKey);
+    if (parsedTerms.length === 0) return;
+
+    const requestId = ++latestRequestRef.current;
+    requestKeysRef.current.set(requestId, termsKey);
+    const search: SearchWorkerRequest = { type: 'search', requestId, terms: parsedTerms };
+    worker.postMessage(search);
+  }, [bookmarks, termsKey]);
+
+  if (terms.length === 0 || !response || response.key !== termsKey) return null;
+  return response.search;
+}
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { toasts } from '../services/toasts';
+
+export function useToasts() {
+  return useSyncExternalStore(toasts.subscribe, toasts.getAll);
+}
@@ -0,0 +1,37 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { undoHistory } from '../services/undoHistory';
+import { isEditingText } from '../services/shortcuts';
+
+// Ctrl+Z undoes and Ctrl+Shift+Z or Ctrl+Y redoes, except while typing, where the browser's
+// own text undo applies
+export function useUndoHistory() {
+  const snapshot = useSyncExternalStore(undoHistory.subscribe, undoHistory.getSnapshot);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isEditingText(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) {
+          undoHistory.redo();
+        } else {
+          undoHistory.undo();
+        }
+      } else if (key === 'y' && !e.shiftKey) {
+        e.preventDefault();
+        undoHistory.redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  return {
+    ...snapshot,
+    undo: () => undoHistory.undo(),
+    redo: () => undoHistory.redo(),
+  };
+}
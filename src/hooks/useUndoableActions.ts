@@ -0,0 +1,210 @@
+import { useEffect, useRef } from 'react';
+import { Bookmark, Folder, FolderDeleteStrategy } from '../types';
+import { undoHistory } from '../services/undoHistory';
+import { outbox } from '../services/outbox';
+
+interface UndoableActionsOptions {
+  bookmarks: Bookmark[];
+  folders: Folder[];
+  addBookmark: (selectedFolder: string | null) => Promise<Bookmark | null>;
+  restoreBookmark: (bookmark: Bookmark) => Promise<Bookmark | null>;
+  updateBookmark: (bookmark: Bookmark) => Promise<boolean>;
+  deleteBookmark: (id: string) => Promise<boolean>;
+  setFavorite: (id: string, favorite: boolean) => Promise<boolean>;
+  moveBookmarksToFolder: (fromFolderIds: string[], toFolderId: string | null) => Promise<boolean>;
+  mergeDuplicates: (group: Bookmark[], keepId: string, folderId: string | null) => Promise<boolean>;
+  createFolder: (name: string, parentId: string | null) => Promise<Folder | null>;
+  updateFolder: (folderId: string, newName: string) => Promise<boolean>;
+  deleteFolder: (folderId: string, strategy: FolderDeleteStrategy) => Promise<boolean>;
+}
+
+// Wraps the bookmark and folder actions so that each change is recorded in the undo
+// history. Undoing re-issues the inverse request; a deleted item comes back under a new
+// id, so commands look ids up through `resolveId` rather than holding on to them.
+export function useUndoableActions(options: UndoableActionsOptions) {
+  // Commands run long after the render that created them, so they always use the latest
+  // actions and state
+  const latest = useRef(options);
+  const replacedIds = useRef(new Map<string, string>());
+
+  useEffect(() => {
+    latest.current = options;
+  });
+
+  const resolveId = (id: string): string => {
+    const replacement = replacedIds.current.get(id);
+    return replacement ? resolveId(replacement) : outbox.resolveId(id);
+  };
+
+  const findBookmark = (id: string) => latest.current.bookmarks.find(b => b.id === resolveId(id));
+
+  const recreateBookmark = async (bookmark: Bookmark) => {
+    const restored = await latest.current.restoreBookmark({
+      ...bookmark,
+      id: resolveId(bookmark.id),
+    });
+    if (restored) replacedIds.current.set(resolveId(bookmark.id), restored.id);
+    return !!restored;
+  };
+
+  const addBookmark = async (selectedFolder: string | null) => {
+    const created = await latest.current.addBookmark(selectedFolder);
+    if (created) {
+      undoHistory.record(
+        {
+          label: 'Add bookmark',
+          undo: () => latest.current.deleteBookmark(resolveId(created.id)),
+          redo: () => recreateBookmark(created),
+        },
+        'Bookmark added'
+      );
+    }
+    return created;
+  };
+
+  const updateBookmark = async (updated: Bookmark) => {
+    const previous = findBookmark(updated.id);
+    const saved = await latest.current.updateBookmark(updated);
+    if (saved && previous) {
+      undoHistory.record(
+        {
+          label: 'Edit bookmark',
+          undo: () => latest.current.updateBookmark({ ...previous, id: resolveId(previous.id) }),
+          redo: () => latest.current.updateBookmark({ ...updated, id: resolveId(updated.id) }),
+        },
+        'Bookmark saved'
+      );
+    }
+    return saved;
+  };
+
+  const deleteBookmark = async (id: string) => {
+    const deleted = findBookmark(id);
+    if (!deleted) return false;
+
+    const succeeded = await latest.current.deleteBookmark(deleted.id);
+    if (succeeded) {
+      undoHistory.record(
+        {
+          label: 'Delete bookmark',
+          undo: () => recreateBookmark(deleted),
+          redo: () => latest.current.deleteBookmark(resolveId(deleted.id)),
+        },
+        `Deleted "${deleted.title}"`
+      );
+    }
+    return succeeded;
+  };
+
+  const toggleFavorite = async (id: string) => {
+    const bookmark = findBookmark(id);
+    if (!bookmark) return false;
+
+    const favorite = !bookmark.favorite;
+    const succeeded = await latest.current.setFavorite(bookmark.id, favorite);
+    if (succeeded) {
+      undoHistory.record(
+        {
+          label: favorite ? 'Add to favorites' : 'Remove from favorites',
+          undo: () => latest.current.setFavorite(resolveId(bookmark.id), !favorite),
+          redo: () => latest.current.setFavorite(resolveId(bookmark.id), favorite),
+        },
+        favorite ? 'Added to favorites' : 'Removed from favorites'
+      );
+    }
+    return succeeded;
+  };
+
+  // Undoing a merge puts the kept bookmark back as it was and recreates the others
+  const mergeDuplicates = async (group: Bookmark[], keepId: string, folderId: string | null) => {
+    const kept = group.find(b => b.id === keepId);
+    const merged = await latest.current.mergeDuplicates(group, keepId, folderId);
+    if (merged && kept) {
+      const removed = group.filter(b => b.id !== keepId);
+      undoHistory.record(
+        {
+          label: 'Merge duplicates',
+          undo: async () => {
+            if (!(await latest.current.updateBookmark({ ...kept, id: resolveId(kept.id) }))) {
+              return false;
+            }
+            for (const bookmark of removed) {
+              // Already back if an earlier attempt failed halfway
+              if (findBookmark(bookmark.id)) continue;
+              if (!(await recreateBookmark(bookmark))) return false;
+            }
+            return true;
+          },
+          redo: () =>
+            latest.current.mergeDuplicates(
+              group.map(bookmark => ({ ...bookmark, id: resolveId(bookmark.id) })),
+              resolveId(keepId),
+              folderId
+            ),
+        },
+        `Merged ${group.length} bookmarks`
+      );
+    }
+    return merged;
+  };
+
+  // Undoing a new folder deletes it again; anything put in it since moves to its parent
+  const removeFolder = async (folder: Folder) => {
+    const id = resolveId(folder.id);
+    const parentId = folder.parentId && resolveId(folder.parentId);
+    return (
+      (await latest.current.moveBookmarksToFolder([id], parentId)) &&
+      latest.current.deleteFolder(id, 'moveToParent')
+    );
+  };
+
+  const createFolder = async (name: string, parentId: string | null) => {
+    const created = await latest.current.createFolder(name, parentId);
+    if (created) {
+      undoHistory.record(
+        {
+          label: 'Create folder',
+          undo: () => removeFolder(created),
+          redo: async () => {
+            const recreated = await latest.current.createFolder(
+              name,
+              parentId && resolveId(parentId)
+            );
+            if (recreated) replacedIds.current.set(resolveId(created.id), recreated.id);
+            return !!recreated;
+          },
+        },
+        `Folder "${name}" created`
+      );
+    }
+    return created;
+  };
+
+  const renameFolder = async (folderId: string, newName: string) => {
+    const previous = latest.current.folders.find(f => f.id === folderId);
+    if (!previous || previous.name === newName) return false;
+
+    const succeeded = await latest.current.updateFolder(folderId, newName);
+    if (succeeded) {
+      undoHistory.record(
+        {
+          label: 'Rename folder',
+          undo: () => latest.current.updateFolder(resolveId(folderId), previous.name),
+          redo: () => latest.current.updateFolder(resolveId(folderId), newName),
+        },
+        `Folder renamed to "${newName}"`
+      );
+    }
+    return succeeded;
+  };
+
+  return {
+    addBookmark,
+    updateBookmark,
+    deleteBookmark,
+    toggleFavorite,
+    mergeDuplicates,
+    createFolder,
+    renameFolder,
+  };
+}
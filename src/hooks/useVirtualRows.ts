@@ -0,0 +1,188 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+export type VirtualItem =
+  { type: 'row'; index: number; key: string } | { type: 'spacer'; key: string; height: number };
+
+interface VirtualRowsOptions {
+  // The element that scrolls; the rows may start anywhere inside it
+  scrollElement: HTMLElement | null;
+  rowKeys: string[];
+  estimatedRowHeight: number;
+  // Rows rendered above and below the visible ones
+  overscan?: number;
+  // A row to keep rendered and scroll into view, such as the one under the keyboard cursor
+  activeKey?: string | null;
+}
+
+interface Viewport {
+  scrollTop: number;
+  height: number;
+  // Where the list starts inside the scrolling element
+  listTop: number;
+}
+
+// Windowed rendering for long lists: only the rows near the visible part of the scrolling
+// element are rendered and spacers take the place of the rest. Row heights are measured
+// once rendered, so rows do not need a fixed height. The row holding keyboard focus and the
+// active row stay rendered when they are scrolled out of view, so focus is not lost.
+export function useVirtualRows({
+  scrollElement,
+  rowKeys,
+  estimatedRowHeight,
+  overscan = 4,
+  activeKey = null,
+}: VirtualRowsOptions) {
+  const [viewport, setViewport] = useState<Viewport>({
+    scrollTop: 0,
+    height: window.innerHeight,
+    listTop: 0,
+  });
+  const [heights, setHeights] = useState<Record<string, number>>({});
+  const [focusedKey, setFocusedKey] = useState<string | null>(null);
+  const listRef = useRef<HTMLElement | null>(null);
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const scheduleUpdateRef = useRef<() => void>(() => {});
+
+  useEffect(() => {
+    if (!scrollElement) return;
+
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      const list = listRef.current;
+      const listTop = list
+        ? list.getBoundingClientRect().top -
+          scrollElement.getBoundingClientRect().top +
+          scrollElement.scrollTop
+        : 0;
+      setViewport(prev =>
+        prev.scrollTop === scrollElement.scrollTop &&
+        prev.height === scrollElement.clientHeight &&
+        prev.listTop === listTop
+          ? prev
+          : { scrollTop: scrollElement.scrollTop, height: scrollElement.clientHeight, listTop }
+      );
+    };
+    const scheduleUpdate = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    scheduleUpdateRef.current = scheduleUpdate;
+    scrollElement.addEventListener('scroll', scheduleUpdate, { passive: true });
+    window.addEventListener('resize', scheduleUpdate);
+    return () => {
+      cancelAnimationFrame(frame);
+      scheduleUpdateRef.current = () => {};
+      scrollElement.removeEventListener('scroll', scheduleUpdate);
+      window.removeEventListener('resize', scheduleUpdate);
+    };
+  }, [scrollElement]);
+
+  // Content above the list, such as the subfolders, can move it after any render
+  useEffect(() => {
+    scheduleUpdateRef.current();
+  });
+
+  useEffect(
+    () => () => {
+      observerRef.current?.disconnect();
+      observerRef.current = null;
+    },
+    []
+  );
+
+  // Attach to every rendered row, together with data-virtual-key={key}. Refs are attached
+  // before effects run, so the observer is created on first use.
+  const measureRow = useCallback((element: HTMLElement | null) => {
+    if (!element) return;
+    if (!observerRef.current) {
+      observerRef.current = new ResizeObserver(entries => {
+        setHeights(prev => {
+          let next = prev;
+          for (const entry of entries) {
+            const key = (entry.target as HTMLElement).dataset.virtualKey;
+            const height = Math.round(entry.borderBoxSize[0]?.blockSize ?? 0);
+            if (key && height > 0 && prev[key] !== height) {
+              if (next === prev) next = { ...prev };
+              next[key] = height;
+            }
+          }
+          return next;
+        });
+      });
+    }
+    const observer = observerRef.current;
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  }, []);
+
+  // The active row is always rendered, so it can be found once it changes
+  useEffect(() => {
+    if (activeKey === null) return;
+    listRef.current
+      ?.querySelector(`[data-virtual-key="${CSS.escape(activeKey)}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [activeKey]);
+
+  const setListElement = useCallback((element: HTMLElement | null) => {
+    listRef.current = element;
+  }, []);
+
+  const offsets: number[] = [0];
+  rowKeys.forEach((key, index) => {
+    offsets.push(offsets[index] + (heights[key] ?? estimatedRowHeight));
+  });
+
+  // The first row whose bottom edge is below the given position
+  const findRow = (position: number) => {
+    let low = 0;
+    let high = rowKeys.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (offsets[middle + 1] <= position) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  };
+
+  const visibleTop = viewport.scrollTop - viewport.listTop;
+  const start = Math.max(findRow(visibleTop) - overscan, 0);
+  const end = Math.min(findRow(visibleTop + viewport.height) + 1 + overscan, rowKeys.length);
+
+  const rendered: number[] = [];
+  for (let index = start; index < end; index++) rendered.push(index);
+  for (const key of new Set([focusedKey, activeKey])) {
+    const index = key === null ? -1 : rowKeys.indexOf(key);
+    if (index !== -1 && (index < start || index >= end)) rendered.push(index);
+  }
+  rendered.sort((a, b) => a - b);
+
+  const items: VirtualItem[] = [];
+  let position = 0;
+  for (const index of rendered) {
+    if (offsets[index] > position) {
+      items.push({ type: 'spacer', key: `spacer-${index}`, height: offsets[index] - position });
+    }
+    items.push({ type: 'row', index, key: rowKeys[index] });
+    position = offsets[index + 1];
+  }
+  if (offsets[rowKeys.length] > position) {
+    items.push({ type: 'spacer', key: 'spacer-end', height: offsets[rowKeys.length] - position });
+  }
+
+  // Spread onto the element holding the rows
+  const containerProps = {
+    onFocus: (e: React.FocusEvent<HTMLElement>) => {
+      const row = (e.target as HTMLElement).closest<HTMLElement>('[data-virtual-key]');
+      setFocusedKey(row?.dataset.virtualKey ?? null);
+    },
+    onBlur: (e: React.FocusEvent<HTMLElement>) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setFocusedKey(null);
+    },
+  };
+
+  return { items, measureRow, setListElement, containerProps };
+}
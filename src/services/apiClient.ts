@@ -1,60 +1,256 @@
-import { Bookmark, Folder } from '../types';
+import { Bookmark, Folder, SortOrder } from '../types';
+import { ApiError, apiErrorFromResponse } from './apiError';
+import { TagMatchMode } from './bookmarkFilter';
+import { SavedSearch } from './savedSearches';
 
-const API_BASE_URL: string =
+// The server fills in the id and, unless it is given, the date added
+export type NewBookmark = Omit<Bookmark, 'id' | 'dateAdded'> & Partial<Pick<Bookmark, 'dateAdded'>>;
+
+// Filters the server applies to a page of bookmarks; everything is optional
+export interface BookmarkPageQuery {
+  folderId?: string;
+  // Also match bookmarks in the folder's subfolders
+  includeSubfolders?: boolean;
+  // Comma-separated tags, combined as `tagMode` says
+  tags?: string;
+  tagMode?: TagMatchMode;
+  // Also match tags nested under them, such as `lang/typescript` for `lang`
+  includeSubtags?: boolean;
+  favorite?: boolean;
+  // The search box contents, in the same syntax the app understands
+  search?: string;
+  sort?: SortOrder;
+}
+
+export interface BookmarkPage {
+  items: Bookmark[];
+  // null on the last page
+  nextCursor: string | null;
+  // How many bookmarks match in total, when the server counts them
+  total?: number;
+}
+
+// Used for the connection profile created on first start
+export const DEFAULT_API_BASE_URL: string =
   import.meta.env.VITE_API_BASE_URL || 'https://api.bookmarks.straccini.com';
 
-async function request<T>(path: string, apiKey: string, options: RequestInit = {}): Promise<T> {
-  const response = await fetch(`${API_BASE_URL}${path}`, {
-    ...options,
-    headers: {
-      'Content-Type': 'application/json',
-      ...(apiKey ? { 'X-API-Key': apiKey } : {}),
-      ...options.headers,
-    },
-  });
+// Browsers cannot see the status of cross-origin requests, so links are checked by a
+// separate service, which may be a small stand-in running locally
+export const DEFAULT_LINK_CHECK_URL: string = import.meta.env.VITE_LINK_CHECK_URL || '';
+
+export interface ApiConnection {
+  baseUrl: string;
+  // Empty for anonymous, read-only access
+  apiKey: string;
+}
+
+const REQUEST_TIMEOUT = 15000;
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY = 500;
+// Repeating these has the same effect as sending them once, so they are safe to retry
+const IDEMPOTENT_METHODS = ['GET', 'PUT', 'DELETE'];
 
-  if (!response.ok) {
-    throw new Error(`API request to ${path} failed: ${response.status} ${response.statusText}`);
+type AuthErrorListener = (error: ApiError, apiKey: string) => void;
+const authErrorListeners = new Set<AuthErrorListener>();
+
+// Called whenever the server rejects an API key with 401, or refuses it a change with 403
+export function onAuthError(listener: AuthErrorListener) {
+  authErrorListeners.add(listener);
+  return () => {
+    authErrorListeners.delete(listener);
+  };
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function send(
+  { baseUrl, apiKey }: ApiConnection,
+  path: string,
+  options: RequestInit
+): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+  try {
+    const response = await fetch(`${baseUrl}${path}`, {
+      ...options,
+      signal: controller.signal,
+      // Only where needed: on a GET to another origin, such as the link checker, either
+      // header would make the browser send a CORS preflight first
+      headers: {
+        ...(options.body ? { 'Content-Type': 'application/json' } : {}),
+        ...(apiKey ? { 'X-API-Key': apiKey } : {}),
+        ...options.headers,
+      },
+    });
+    if (!response.ok) throw await apiErrorFromResponse(response, path);
+    return response;
+  } catch (err) {
+    if (err instanceof ApiError) throw err;
+    if (controller.signal.aborted) {
+      throw new ApiError(`API request to ${path} timed out`, 0, 'timeout');
+    }
+    // fetch() rejects with a TypeError when the request never reached the server
+    throw new ApiError(`Could not reach the API (${path})`, 0, 'network');
+  } finally {
+    clearTimeout(timer);
   }
+}
+
+async function request<T>(
+  connection: ApiConnection,
+  path: string,
+  options: RequestInit = {},
+  { reportAuthErrors = true } = {}
+): Promise<T> {
+  const method = (options.method || 'GET').toUpperCase();
+  const attempts = IDEMPOTENT_METHODS.includes(method) ? MAX_RETRIES + 1 : 1;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await send(connection, path, options);
+      if (response.status === 204) {
+        return undefined as T;
+      }
+      return (await response.json()) as T;
+    } catch (err) {
+      if (!(err instanceof ApiError)) throw err;
+
+      if (err.isAuthError && reportAuthErrors) {
+        authErrorListeners.forEach(listener => listener(err, connection.apiKey));
+      }
+      // Retrying is pointless while the browser knows it is offline
+      if (!err.retryable || attempt >= attempts || !navigator.onLine) throw err;
 
-  if (response.status === 204) {
-    return undefined as T;
+      // Exponential backoff with jitter: ~0.5s, 1s, 2s
+      const delay = RETRY_BASE_DELAY * 2 ** (attempt - 1);
+      await wait(delay / 2 + Math.random() * delay);
+    }
   }
+}
+
+export type KeyVerificationResult =
+  | 'valid'
+  | 'readOnly'
+  | 'invalid'
+  | 'unreachable'
+  // The server answered but has no way of checking keys
+  | 'unsupported';
 
-  return (await response.json()) as T;
+// What the link check service answers for GET <checkUrl>?url=<link>
+export interface LinkCheckResponse {
+  // 0 when the link could not be reached
+  status: number;
+  finalUrl?: string | null;
+  error?: string;
 }
 
-export const apiClient = {
-  getBookmarks: (apiKey: string) => request<Bookmark[]>('/bookmarks', apiKey),
+export const checkLink = (checkUrl: string, url: string) => {
+  // The checker's address may already have a query string of its own
+  const target = new URL(checkUrl.trim());
+  target.searchParams.set('url', url);
+  return request<LinkCheckResponse>(
+    { baseUrl: '', apiKey: '' },
+    target.href,
+    {},
+    { reportAuthErrors: false }
+  );
+};
 
-  createBookmark: (apiKey: string, bookmark: Omit<Bookmark, 'id' | 'dateAdded'>) =>
-    request<Bookmark>('/bookmarks', apiKey, {
-      method: 'POST',
-      body: JSON.stringify(bookmark),
-    }),
+// Every profile talks to its own server, so a client is created per connection
+export function createApiClient({ baseUrl, apiKey }: ApiConnection) {
+  const connection: ApiConnection = { baseUrl: baseUrl.trim().replace(/\/+$/, ''), apiKey };
 
-  updateBookmark: (apiKey: string, bookmark: Bookmark) =>
-    request<Bookmark>(`/bookmarks/${bookmark.id}`, apiKey, {
-      method: 'PUT',
-      body: JSON.stringify(bookmark),
-    }),
+  return {
+    id: `${connection.baseUrl}:${apiKey}`,
+    connection,
 
-  deleteBookmark: (apiKey: string, id: string) =>
-    request<void>(`/bookmarks/${id}`, apiKey, {
-      method: 'DELETE',
-    }),
+    // Checks the key with GET /auth/verify, which answers 401 for unknown keys and
+    // otherwise lists the key's scopes. A key without the "write" scope can only read.
+    // Failures here are not reported to the onAuthError listeners, since those are what
+    // trigger verification.
+    verifyKey: async (): Promise<KeyVerificationResult> => {
+      try {
+        const { scopes } = await request<{ scopes?: string[] }>(
+          connection,
+          '/auth/verify',
+          {},
+          { reportAuthErrors: false }
+        );
+        return Array.isArray(scopes) && !scopes.includes('write') ? 'readOnly' : 'valid';
+      } catch (err) {
+        if (!(err instanceof ApiError)) throw err;
+        if (err.code === 'unauthorized') return 'invalid';
+        if (err.code === 'forbidden') return 'readOnly';
+        if (err.code === 'not_found') return 'unsupported';
+        return 'unreachable';
+      }
+    },
 
-  getFolders: (apiKey: string) => request<Folder[]>('/folders', apiKey),
+    getBookmarks: () => request<Bookmark[]>(connection, '/bookmarks'),
 
-  createFolder: (apiKey: string, name: string, parentId: string | null) =>
-    request<Folder>('/folders', apiKey, {
-      method: 'POST',
-      body: JSON.stringify({ name, parentId }),
-    }),
+    // Servers that support paging answer with a BookmarkPage; older ones ignore the
+    // parameters and return the whole collection as an array
+    getBookmarkPage: (query: BookmarkPageQuery & { cursor?: string; limit: number }) => {
+      const params = new URLSearchParams();
+      Object.entries(query).forEach(([name, value]) => {
+        if (value !== undefined && value !== '') params.set(name, String(value));
+      });
+      return request<BookmarkPage | Bookmark[]>(connection, `/bookmarks?${params}`);
+    },
 
-  updateFolder: (apiKey: string, folderId: string, name: string) =>
-    request<Folder>(`/folders/${folderId}`, apiKey, {
-      method: 'PUT',
-      body: JSON.stringify({ name }),
-    }),
-};
+    createBookmark: (bookmark: NewBookmark) =>
+      request<Bookmark>(connection, '/bookmarks', {
+        method: 'POST',
+        body: JSON.stringify(bookmark),
+      }),
+
+    updateBookmark: (bookmark: Bookmark) =>
+      request<Bookmark>(connection, `/bookmarks/${bookmark.id}`, {
+        method: 'PUT',
+        body: JSON.stringify(bookmark),
+      }),
+
+    deleteBookmark: (id: string) =>
+      request<void>(connection, `/bookmarks/${id}`, {
+        method: 'DELETE',
+      }),
+
+    getFolders: () => request<Folder[]>(connection, '/folders'),
+
+    createFolder: (name: string, parentId: string | null) =>
+      request<Folder>(connection, '/folders', {
+        method: 'POST',
+        body: JSON.stringify({ name, parentId }),
+      }),
+
+    updateFolder: (folderId: string, name: string) =>
+      request<Folder>(connection, `/folders/${folderId}`, {
+        method: 'PUT',
+        body: JSON.stringify({ name }),
+      }),
+
+    // PUT replaces the folder, so the name goes along with the new parent
+    moveFolder: (folderId: string, name: string, parentId: string | null) =>
+      request<Folder>(connection, `/folders/${folderId}`, {
+        method: 'PUT',
+        body: JSON.stringify({ name, parentId }),
+      }),
+
+    deleteFolder: (folderId: string) =>
+      request<void>(connection, `/folders/${folderId}`, {
+        method: 'DELETE',
+      }),
+
+    getSavedSearches: () => request<SavedSearch[]>(connection, '/saved-searches'),
+
+    // The whole list is sent at once, which also keeps the order
+    replaceSavedSearches: (searches: SavedSearch[]) =>
+      request<SavedSearch[]>(connection, '/saved-searches', {
+        method: 'PUT',
+        body: JSON.stringify(searches),
+      }),
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
@@ -0,0 +1,83 @@
+export type ApiErrorCode =
+  | 'network'
+  | 'timeout'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'rate_limited'
+  | 'bad_request'
+  | 'server';
+
+export class ApiError extends Error {
+  // 0 when no response arrived, i.e. for network failures and timeouts
+  readonly status: number;
+  readonly code: ApiErrorCode;
+  readonly retryable: boolean;
+  // The parsed response body, which usually holds the server's own explanation
+  readonly body: unknown;
+
+  constructor(message: string, status: number, code: ApiErrorCode, body: unknown = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.retryable = ['network', 'timeout', 'rate_limited', 'server'].includes(code);
+    this.body = body;
+  }
+
+  get isAuthError() {
+    return this.code === 'unauthorized' || this.code === 'forbidden';
+  }
+}
+
+function codeForStatus(status: number): ApiErrorCode {
+  if (status === 401) return 'unauthorized';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not_found';
+  if (status === 408) return 'timeout';
+  if (status === 409) return 'conflict';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'server';
+  return 'bad_request';
+}
+
+// Servers tend to explain themselves in one of these fields
+function serverMessage(body: unknown): string | null {
+  if (typeof body === 'string') return body.trim() || null;
+  if (body && typeof body === 'object') {
+    for (const key of ['message', 'error', 'detail', 'title']) {
+      const value = (body as Record<string, unknown>)[key];
+      if (typeof value === 'string' && value.trim()) return value.trim();
+    }
+  }
+  return null;
+}
+
+export async function apiErrorFromResponse(response: Response, path: string): Promise<ApiError> {
+  let body: unknown = null;
+  try {
+    const text = await response.text();
+    try {
+      body = JSON.parse(text);
+    } catch {
+      body = text;
+    }
+  } catch {
+    // The body could not be read; the status alone will have to do
+  }
+
+  const code = codeForStatus(response.status);
+  const explanation = serverMessage(body);
+  const detail = explanation ? `: ${explanation}` : '';
+  const message =
+    code === 'unauthorized'
+      ? `The server rejected the API key${detail}`
+      : code === 'forbidden'
+        ? `The API key is not allowed to do this${detail}`
+        : `API request to ${path} failed: ${response.status} ${
+            explanation || response.statusText
+          }`.trim();
+
+  return new ApiError(message, response.status, code, body);
+}
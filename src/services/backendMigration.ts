@@ -0,0 +1,112 @@
+import { Folder } from '../types';
+import { canonicalizeUrl } from './duplicates';
+import { runConcurrently } from './runConcurrently';
+import { StorageBackend, loadAllBookmarks } from './storageBackend';
+
+const MIGRATION_CONCURRENCY = 4;
+
+export interface MigrationProgress {
+  done: number;
+  total: number;
+}
+
+export interface MigrationResult {
+  folders: number;
+  bookmarks: number;
+  // Folders and bookmarks the target already had, e.g. from an earlier copy
+  skipped: number;
+  failed: number;
+}
+
+// Parents come before their children. Folders whose parent is missing, or that sit in a
+// cycle, are put at the top level.
+function parentsFirst(folders: Folder[]): Folder[] {
+  const ids = new Set(folders.map(folder => folder.id));
+  const ordered: Folder[] = [];
+  const placed = new Set<string>();
+  let remaining = folders.map(folder =>
+    folder.parentId && ids.has(folder.parentId) ? folder : { ...folder, parentId: null }
+  );
+
+  while (remaining.length > 0) {
+    const ready = remaining.filter(folder => !folder.parentId || placed.has(folder.parentId));
+    const next = ready.length > 0 ? ready : [{ ...remaining[0], parentId: null }];
+    next.forEach(folder => {
+      ordered.push(folder);
+      placed.add(folder.id);
+    });
+    remaining = remaining.filter(folder => !placed.has(folder.id));
+  }
+  return ordered;
+}
+
+// Copies every folder and bookmark from one backend to another, e.g. from the browser-only
+// profile into an API account. The target gives everything new ids, so folder ids are
+// remapped as the folders are created. Bookmarks whose folder could not be created end up
+// at the top level. Folders with the same name and parent, and bookmarks whose URL the
+// target already has, are not copied again, so copying twice adds nothing new. Nothing is
+// removed from the source.
+export async function copyBackendData(
+  source: StorageBackend,
+  target: StorageBackend,
+  onProgress?: (progress: MigrationProgress) => void
+): Promise<MigrationResult> {
+  const [folders, bookmarks, targetFolders, targetBookmarks] = await Promise.all([
+    source.getFolders(),
+    source.getBookmarks(),
+    target.getFolders(),
+    loadAllBookmarks(target),
+  ]);
+  const total = folders.length + bookmarks.length;
+  const result: MigrationResult = { folders: 0, bookmarks: 0, skipped: 0, failed: 0 };
+  const report = () =>
+    onProgress?.({
+      done: result.folders + result.bookmarks + result.skipped + result.failed,
+      total,
+    });
+  const folderIds = new Map<string, string>();
+  const targetUrls = new Set(targetBookmarks.map(bookmark => canonicalizeUrl(bookmark.url)));
+
+  for (const folder of parentsFirst(folders)) {
+    const parentId = folder.parentId ? (folderIds.get(folder.parentId) ?? null) : null;
+    const existing = targetFolders.find(
+      other => other.name === folder.name && (other.parentId ?? null) === parentId
+    );
+    if (existing) {
+      folderIds.set(folder.id, existing.id);
+      result.skipped++;
+      report();
+      continue;
+    }
+    try {
+      const created = await target.createFolder(folder.name, parentId);
+      folderIds.set(folder.id, created.id);
+      result.folders++;
+    } catch (err) {
+      console.error('Failed to copy folder:', folder, err);
+      result.failed++;
+    }
+    report();
+  }
+
+  await runConcurrently(bookmarks, MIGRATION_CONCURRENCY, async ({ id, ...bookmark }) => {
+    if (targetUrls.has(canonicalizeUrl(bookmark.url))) {
+      result.skipped++;
+      report();
+      return;
+    }
+    try {
+      await target.createBookmark({
+        ...bookmark,
+        folderId: bookmark.folderId ? (folderIds.get(bookmark.folderId) ?? null) : null,
+      });
+      result.bookmarks++;
+    } catch (err) {
+      console.error('Failed to copy bookmark:', id, err);
+      result.failed++;
+    }
+    report();
+  });
+
+  return result;
+}
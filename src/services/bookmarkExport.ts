@@ -0,0 +1,143 @@
+import { Bookmark, Folder } from '../types';
+import { serializeNetscapeBookmarks } from './netscapeBookmarks';
+
+export type ExportFormat = 'html' | 'json' | 'csv' | 'markdown';
+
+export interface ExportFile {
+  content: string;
+  mimeType: string;
+  extension: string;
+}
+
+interface ExportOptions {
+  bookmarks: Bookmark[];
+  folders: Folder[];
+  getFolderPathName: (folderId: string | null) => string;
+}
+
+const csvCell = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+function toCsv({ bookmarks, getFolderPathName }: ExportOptions): string {
+  const header = ['title', 'url', 'description', 'tags', 'folder', 'favorite', 'dateAdded'];
+  const rows = bookmarks.map(bookmark => [
+    bookmark.title,
+    bookmark.url,
+    bookmark.description,
+    bookmark.tags.join(', '),
+    bookmark.folderId ? getFolderPathName(bookmark.folderId) : '',
+    String(bookmark.favorite),
+    bookmark.dateAdded,
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+const markdownText = (value: string) => value.replace(/([\\[\]])/g, '\\$1');
+
+// The folders from the top level down to the given one. Nesting is followed through
+// parentId rather than the display path, since folder names may contain ' > '.
+function folderChain(folderId: string | null, foldersById: Map<string, Folder>): Folder[] {
+  const chain: Folder[] = [];
+  let folder = folderId ? foldersById.get(folderId) : undefined;
+  while (folder && !chain.includes(folder)) {
+    chain.unshift(folder);
+    folder = folder.parentId ? foldersById.get(folder.parentId) : undefined;
+  }
+  return chain;
+}
+
+const compareChains = (a: Folder[], b: Folder[]) => {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const order = a[i].name.localeCompare(b[i].name) || a[i].id.localeCompare(b[i].id);
+    if (order !== 0) return order;
+  }
+  return a.length - b.length;
+};
+
+function toMarkdown({ bookmarks, folders }: ExportOptions): string {
+  const foldersById = new Map(folders.map(folder => [folder.id, folder]));
+  const groups = new Map<string, { chain: Folder[]; bookmarks: Bookmark[] }>();
+  bookmarks.forEach(bookmark => {
+    const chain = folderChain(bookmark.folderId, foldersById);
+    const key = chain.length > 0 ? chain[chain.length - 1].id : '';
+    const group = groups.get(key) || { chain, bookmarks: [] };
+    group.bookmarks.push(bookmark);
+    groups.set(key, group);
+  });
+
+  const renderBookmark = (bookmark: Bookmark, depth: number) => {
+    const description = bookmark.description ? ` — ${bookmark.description}` : '';
+    const tags =
+      bookmark.tags.length > 0 ? ` ${bookmark.tags.map(tag => `\`${tag}\``).join(' ')}` : '';
+    return `${'  '.repeat(depth)}- [${markdownText(bookmark.title || bookmark.url)}](${bookmark.url})${description}${tags}`;
+  };
+
+  const lines = ['# Bookmarks', ''];
+  let previousChain: Folder[] = [];
+
+  Array.from(groups.values())
+    .sort((a, b) => compareChains(a.chain, b.chain))
+    .forEach(({ chain, bookmarks: groupBookmarks }) => {
+      // Only emit the folder levels that differ from the previous group
+      let shared = 0;
+      while (
+        shared < chain.length &&
+        shared < previousChain.length &&
+        chain[shared].id === previousChain[shared].id
+      ) {
+        shared++;
+      }
+      chain.slice(shared).forEach((folder, index) => {
+        lines.push(`${'  '.repeat(shared + index)}- **${markdownText(folder.name)}**`);
+      });
+      groupBookmarks.forEach(bookmark => lines.push(renderBookmark(bookmark, chain.length)));
+      previousChain = chain;
+    });
+
+  return lines.join('\n') + '\n';
+}
+
+export function exportBookmarks(format: ExportFormat, options: ExportOptions): ExportFile {
+  switch (format) {
+    case 'html':
+      return {
+        content: serializeNetscapeBookmarks(options.bookmarks, options.folders),
+        mimeType: 'text/html',
+        extension: 'html',
+      };
+    case 'json':
+      return {
+        content: JSON.stringify(
+          {
+            exportedAt: new Date().toISOString(),
+            folders: options.folders,
+            bookmarks: options.bookmarks,
+          },
+          null,
+          2
+        ),
+        mimeType: 'application/json',
+        extension: 'json',
+      };
+    case 'csv':
+      return { content: toCsv(options), mimeType: 'text/csv', extension: 'csv' };
+    case 'markdown':
+      return { content: toMarkdown(options), mimeType: 'text/markdown', extension: 'md' };
+  }
+}
+
+// How long the downloaded file stays available to the browser
+const REVOKE_DELAY = 60000;
+
+export function downloadFile(file: ExportFile, baseName: string) {
+  const blob = new Blob([file.content], { type: `${file.mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${baseName}.${file.extension}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking too early can cancel a large download before the browser has read it all
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY);
+}
@@ -0,0 +1,71 @@
+import { Bookmark } from '../types';
+import { tagMatches } from './tagTree';
+
+// How the selected tags combine: bookmarks with all of them, with any of them, or with none
+export type TagMatchMode = 'and' | 'or' | 'not';
+
+const TAG_MATCH_MODES: readonly string[] = ['and', 'or', 'not'];
+
+const isTagMatchMode = (value: string | null): value is TagMatchMode =>
+  value !== null && TAG_MATCH_MODES.includes(value);
+
+// What the bookmark list is narrowed to: a folder or view, and tags within it
+export interface BookmarkFilter {
+  folder: string | null;
+  tags: string[];
+  tagMode: TagMatchMode;
+}
+
+export function matchesTagFilter(bookmark: Bookmark, tags: string[], mode: TagMatchMode) {
+  if (tags.length === 0) return true;
+
+  const hasTag = (selected: string) => bookmark.tags.some(tag => tagMatches(tag, selected));
+  switch (mode) {
+    case 'and':
+      return tags.every(hasTag);
+    case 'or':
+      return tags.some(hasTag);
+    case 'not':
+      return !tags.some(hasTag);
+  }
+}
+
+// Reads `?folder=x&tags=a,b&mode=and`. Links shared before tags could be combined carry a
+// single `tag` instead. Tags cannot contain commas, which the tag editor splits on.
+export function readFilter(params: URLSearchParams): BookmarkFilter {
+  const tags = (params.get('tags') ?? params.get('tag') ?? '').split(',').filter(Boolean);
+  const mode = params.get('mode');
+  return {
+    folder: params.get('folder') || 'all',
+    tags,
+    tagMode: tags.length > 0 && isTagMatchMode(mode) ? mode : 'and',
+  };
+}
+
+export function writeFilter(params: URLSearchParams, filter: BookmarkFilter) {
+  params.delete('tag');
+  if (filter.folder) {
+    params.set('folder', filter.folder);
+  } else {
+    params.delete('folder');
+  }
+  if (filter.tags.length > 0) {
+    params.set('tags', filter.tags.join(','));
+    params.set('mode', filter.tagMode);
+  } else {
+    params.delete('tags');
+    params.delete('mode');
+  }
+}
+
+// The mode only matters while tags are selected
+export const isSameFilter = (a: BookmarkFilter, b: BookmarkFilter) =>
+  a.folder === b.folder &&
+  a.tags.join(',') === b.tags.join(',') &&
+  (a.tags.length === 0 || a.tagMode === b.tagMode);
+
+// Identifies the filter, e.g. `folder:work tags:and:a,b`
+export const describeFilter = (filter: BookmarkFilter) =>
+  filter.tags.length > 0
+    ? `folder:${filter.folder} tags:${filter.tagMode}:${filter.tags.join(',')}`
+    : `folder:${filter.folder}`;
@@ -0,0 +1,38 @@
+import { Bookmark, SortOrder } from '../types';
+
+export const SORT_OPTIONS: { value: SortOrder; label: string }[] = [
+  { value: 'dateNewest', label: 'Newest first' },
+  { value: 'dateOldest', label: 'Oldest first' },
+  { value: 'title', label: 'Title A–Z' },
+  { value: 'domain', label: 'Domain' },
+  { value: 'favorites', label: 'Favorites first' },
+];
+
+export function isSortOrder(value: unknown): value is SortOrder {
+  return SORT_OPTIONS.some(option => option.value === value);
+}
+
+const timeAdded = (bookmark: Bookmark) => Date.parse(bookmark.dateAdded) || 0;
+
+const domainOf = (url: string) => {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return url.toLowerCase();
+  }
+};
+
+const compareTitles = (a: Bookmark, b: Bookmark) =>
+  a.title.localeCompare(b.title, undefined, { sensitivity: 'base', numeric: true });
+
+const comparators: Record<SortOrder, (a: Bookmark, b: Bookmark) => number> = {
+  dateNewest: (a, b) => timeAdded(b) - timeAdded(a),
+  dateOldest: (a, b) => timeAdded(a) - timeAdded(b),
+  title: compareTitles,
+  domain: (a, b) => domainOf(a.url).localeCompare(domainOf(b.url)) || compareTitles(a, b),
+  favorites: (a, b) => Number(b.favorite) - Number(a.favorite) || timeAdded(b) - timeAdded(a),
+};
+
+export function compareBookmarks(order: SortOrder) {
+  return comparators[order] || comparators.dateNewest;
+}
@@ -0,0 +1,75 @@
+import { Bookmark } from '../types';
+
+// Query parameters that only track where a visit came from
+const TRACKING_PARAMS = /^(utm_.*|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|igshid|ref_src)$/i;
+
+// Reduces a URL to what decides which page it points at, so that variants of the same
+// address compare equal: the scheme, a leading "www.", default ports, trailing slashes,
+// tracking parameters, the order of the parameters and an empty fragment are ignored.
+// Strings that are not absolute URLs are only trimmed and lowercased.
+export function canonicalizeUrl(url: string): string {
+  const trimmed = url.trim();
+  let parsed: URL;
+  try {
+    parsed = new URL(trimmed);
+  } catch {
+    return trimmed.toLowerCase();
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return parsed.href;
+
+  const host = parsed.hostname.replace(/^www\./, '');
+  const port = parsed.port && !['80', '443'].includes(parsed.port) ? `:${parsed.port}` : '';
+  const path = parsed.pathname.replace(/\/+$/, '');
+  const params = [...parsed.searchParams.entries()]
+    .filter(([name]) => !TRACKING_PARAMS.test(name))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length > 0 ? `?${new URLSearchParams(params)}` : '';
+  const hash = parsed.hash.length > 1 ? parsed.hash : '';
+
+  return `${host}${port}${path}${query}${hash}`;
+}
+
+export interface DuplicateGroup {
+  canonicalUrl: string;
+  // Oldest first
+  bookmarks: Bookmark[];
+}
+
+const byDateAdded = (a: Bookmark, b: Bookmark) => a.dateAdded.localeCompare(b.dateAdded);
+
+// Bookmarks without a URL are never considered duplicates of each other
+export function findDuplicateGroups(bookmarks: Bookmark[]): DuplicateGroup[] {
+  const byUrl = new Map<string, Bookmark[]>();
+  for (const bookmark of bookmarks) {
+    if (!bookmark.url.trim()) continue;
+    const key = canonicalizeUrl(bookmark.url);
+    byUrl.set(key, [...(byUrl.get(key) || []), bookmark]);
+  }
+
+  return Array.from(byUrl, ([canonicalUrl, matches]) => ({
+    canonicalUrl,
+    bookmarks: [...matches].sort(byDateAdded),
+  }))
+    .filter(group => group.bookmarks.length > 1)
+    .sort((a, b) => byDateAdded(a.bookmarks[0], b.bookmarks[0]));
+}
+
+// The bookmark that remains after merging a group: the kept bookmark with every tag of the
+// group, the earliest date added, favorite if any of them was, and the description and
+// thumbnail of another bookmark where its own are empty.
+export function mergeDuplicateGroup(
+  group: Bookmark[],
+  keep: Bookmark,
+  folderId: string | null
+): Bookmark {
+  return {
+    ...keep,
+    description:
+      keep.description || group.find(bookmark => bookmark.description)?.description || '',
+    thumbnail: keep.thumbnail || group.find(bookmark => bookmark.thumbnail)?.thumbnail || '',
+    tags: Array.from(new Set(group.flatMap(bookmark => bookmark.tags))),
+    folderId,
+    favorite: group.some(bookmark => bookmark.favorite),
+    dateAdded: [...group].sort(byDateAdded)[0].dateAdded,
+  };
+}
@@ -0,0 +1,28 @@
+import { Bookmark, LinkCheck } from '../types';
+
+export type LinkHealth = 'ok' | 'redirected' | 'broken';
+
+// null when the link has not been checked since its URL was last changed
+export function getLinkHealth(bookmark: Bookmark, check: LinkCheck | undefined): LinkHealth | null {
+  if (!check || check.url !== bookmark.url) return null;
+  if (check.status === 0 || check.status >= 400) return 'broken';
+  if (check.finalUrl && check.finalUrl !== bookmark.url) return 'redirected';
+  return 'ok';
+}
+
+// Links that need attention: those that fail and those that lead somewhere else
+export const needsAttention = (bookmark: Bookmark, check: LinkCheck | undefined) => {
+  const health = getLinkHealth(bookmark, check);
+  return health === 'broken' || health === 'redirected';
+};
+
+export function describeLinkCheck(check: LinkCheck): string {
+  const checkedAt = new Date(check.checkedAt).toLocaleString();
+  const outcome =
+    check.status === 0
+      ? `Could not be reached${check.error ? `: ${check.error}` : ''}`
+      : check.finalUrl && check.finalUrl !== check.url
+        ? `Redirects to ${check.finalUrl} (${check.status})`
+        : `Answered with status ${check.status}`;
+  return `${outcome}. Checked ${checkedAt}.`;
+}
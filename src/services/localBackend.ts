@@ -0,0 +1,55 @@
+import { Bookmark, Folder } from '../types';
+import { NewBookmark } from './apiClient';
+import { ApiError } from './apiError';
+import { offlineStore, LocalRecordKind } from './offlineStore';
+import type { StorageBackend } from './storageBackend';
+
+const createId = () => crypto.randomUUID();
+
+async function getExisting<T>(kind: LocalRecordKind, id: string): Promise<T> {
+  const record = await offlineStore.getLocalRecord<T>(kind, id);
+  if (!record) throw new ApiError('The item no longer exists', 404, 'not_found');
+  return record;
+}
+
+// Keeps bookmarks and folders in this browser's IndexedDB, for use without an account.
+// Errors look like the API's so the hooks handle both backends the same way.
+export const localBackend: StorageBackend = {
+  id: 'local',
+  connection: null,
+
+  getBookmarks: () => offlineStore.getLocalRecords<Bookmark>('bookmarks'),
+
+  getBookmarkPage: () => offlineStore.getLocalRecords<Bookmark>('bookmarks'),
+
+  createBookmark: (bookmark: NewBookmark) =>
+    offlineStore.putLocalRecord<Bookmark>('bookmarks', {
+      dateAdded: new Date().toISOString(),
+      ...bookmark,
+      id: createId(),
+    }),
+
+  updateBookmark: async (bookmark: Bookmark) => {
+    await getExisting<Bookmark>('bookmarks', bookmark.id);
+    return offlineStore.putLocalRecord('bookmarks', bookmark);
+  },
+
+  deleteBookmark: id => offlineStore.removeLocalRecord('bookmarks', id),
+
+  getFolders: () => offlineStore.getLocalRecords<Folder>('folders'),
+
+  createFolder: (name, parentId) =>
+    offlineStore.putLocalRecord<Folder>('folders', { id: createId(), name, parentId }),
+
+  updateFolder: async (folderId, name) => {
+    const folder = await getExisting<Folder>('folders', folderId);
+    return offlineStore.putLocalRecord('folders', { ...folder, name });
+  },
+
+  moveFolder: async (folderId, _name, parentId) => {
+    const folder = await getExisting<Folder>('folders', folderId);
+    return offlineStore.putLocalRecord('folders', { ...folder, parentId });
+  },
+
+  deleteFolder: folderId => offlineStore.removeLocalRecord('folders', folderId),
+};
@@ -0,0 +1,198 @@
+import { Bookmark, Folder } from '../types';
+
+export interface ImportedBookmark {
+  kind: 'bookmark';
+  title: string;
+  url: string;
+  description: string;
+  icon: string;
+  tags: string[];
+  dateAdded: string | null;
+}
+
+export interface ImportedFolder {
+  kind: 'folder';
+  name: string;
+  children: ImportedNode[];
+}
+
+export type ImportedNode = ImportedBookmark | ImportedFolder;
+
+// Netscape files store timestamps as seconds since the epoch
+function parseAddDate(value: string | null): string | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds <= 0) return null;
+  return new Date(seconds * 1000).toISOString();
+}
+
+function parseTags(value: string | null): string[] {
+  if (!value) return [];
+  return Array.from(
+    new Set(
+      value
+        .split(',')
+        .map(tag => tag.trim())
+        .filter(Boolean)
+    )
+  );
+}
+
+const findChildByTag = (element: Element, tagName: string) =>
+  Array.from(element.children).find(child => child.tagName === tagName) || null;
+
+// Exporters are inconsistent about whether a folder's <DL> ends up inside its <DT>,
+// after it, or inside the <DD> holding the folder description, so look in all three.
+function findChildList(dt: Element): Element | null {
+  const nested = findChildByTag(dt, 'DL');
+  if (nested) return nested;
+
+  let sibling = dt.nextElementSibling;
+  while (sibling && sibling.tagName === 'P') {
+    sibling = sibling.nextElementSibling;
+  }
+  if (!sibling) return null;
+  if (sibling.tagName === 'DL') return sibling;
+  if (sibling.tagName === 'DD') return findChildByTag(sibling, 'DL');
+  return null;
+}
+
+function walkList(dl: Element): ImportedNode[] {
+  const nodes: ImportedNode[] = [];
+  let lastBookmark: ImportedBookmark | null = null;
+
+  const visit = (element: Element) => {
+    if (element.tagName === 'P') {
+      Array.from(element.children).forEach(visit);
+      return;
+    }
+
+    if (element.tagName === 'DD') {
+      if (lastBookmark && element.firstChild) {
+        lastBookmark.description = (element.firstChild.textContent || '').trim();
+      }
+      return;
+    }
+
+    if (element.tagName !== 'DT') return;
+
+    const heading = findChildByTag(element, 'H3');
+    const anchor = findChildByTag(element, 'A');
+
+    if (heading) {
+      const childList = findChildList(element);
+      nodes.push({
+        kind: 'folder',
+        name: (heading.textContent || '').trim() || 'Untitled folder',
+        children: childList ? walkList(childList) : [],
+      });
+      lastBookmark = null;
+    } else if (anchor) {
+      const url = anchor.getAttribute('href') || '';
+      lastBookmark = {
+        kind: 'bookmark',
+        title: (anchor.textContent || '').trim() || url,
+        url,
+        description: '',
+        icon: anchor.getAttribute('icon') || '',
+        tags: parseTags(anchor.getAttribute('tags')),
+        dateAdded: parseAddDate(anchor.getAttribute('add_date')),
+      };
+      nodes.push(lastBookmark);
+    }
+  };
+
+  Array.from(dl.children).forEach(visit);
+  return nodes;
+}
+
+export function parseNetscapeBookmarks(html: string): ImportedNode[] {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const rootList = doc.querySelector('dl');
+  if (!rootList) {
+    throw new Error('The file does not look like a bookmarks export (no <DL> list found)');
+  }
+  return walkList(rootList);
+}
+
+export function countImportedNodes(nodes: ImportedNode[]): { folders: number; bookmarks: number } {
+  return nodes.reduce(
+    (totals, node) => {
+      if (node.kind === 'bookmark') {
+        return { ...totals, bookmarks: totals.bookmarks + 1 };
+      }
+      const nested = countImportedNodes(node.children);
+      return {
+        folders: totals.folders + 1 + nested.folders,
+        bookmarks: totals.bookmarks + nested.bookmarks,
+      };
+    },
+    { folders: 0, bookmarks: 0 }
+  );
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toAddDate = (isoDate: string) => {
+  const time = Date.parse(isoDate);
+  return Number.isNaN(time) ? '' : `ADD_DATE="${Math.floor(time / 1000)}"`;
+};
+
+// Produces the same format browsers export, so the file can be re-imported anywhere.
+// Folders whose parent is not part of the export are written at the top level, as are
+// bookmarks whose folder is not included.
+export function serializeNetscapeBookmarks(bookmarks: Bookmark[], folders: Folder[]): string {
+  const folderIds = new Set(folders.map(folder => folder.id));
+
+  const renderBookmark = (bookmark: Bookmark, indent: string) => {
+    const attributes = [
+      `HREF="${escapeHtml(bookmark.url)}"`,
+      toAddDate(bookmark.dateAdded),
+      bookmark.thumbnail.startsWith('data:') ? `ICON="${escapeHtml(bookmark.thumbnail)}"` : '',
+      bookmark.tags.length > 0 ? `TAGS="${escapeHtml(bookmark.tags.join(','))}"` : '',
+    ].filter(Boolean);
+    const lines = [`${indent}<DT><A ${attributes.join(' ')}>${escapeHtml(bookmark.title)}</A>`];
+    if (bookmark.description) {
+      lines.push(`${indent}<DD>${escapeHtml(bookmark.description)}`);
+    }
+    return lines;
+  };
+
+  const renderLevel = (parentId: string | null, indent: string): string[] => {
+    const childFolders = folders.filter(folder =>
+      parentId === null
+        ? folder.parentId === null || !folderIds.has(folder.parentId)
+        : folder.parentId === parentId
+    );
+    const childBookmarks = bookmarks.filter(bookmark =>
+      parentId === null
+        ? bookmark.folderId === null || !folderIds.has(bookmark.folderId)
+        : bookmark.folderId === parentId
+    );
+
+    return [
+      ...childFolders.flatMap(folder => [
+        `${indent}<DT><H3>${escapeHtml(folder.name)}</H3>`,
+        `${indent}<DL><p>`,
+        ...renderLevel(folder.id, `${indent}    `),
+        `${indent}</DL><p>`,
+      ]),
+      ...childBookmarks.flatMap(bookmark => renderBookmark(bookmark, indent)),
+    ];
+  };
+
+  return [
+    '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+    '<!-- This is an automatically generated file.',
+    '     It will be read and overwritten.',
+    '     DO NOT EDIT! -->',
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+    '<TITLE>Bookmarks</TITLE>',
+    '<H1>Bookmarks</H1>',
+    '<DL><p>',
+    ...renderLevel(null, '    '),
+    '</DL><p>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,98 @@
+// Thin promise wrapper around the IndexedDB database that keeps the offline copy of the
+// bookmarks and folders, the queue of changes waiting to be sent to the API and the
+// bookmarks and folders of the browser-only profile.
+
+const DB_NAME = 'bookmarkManager';
+const DB_VERSION = 2;
+const CACHE_STORE = 'cache';
+const OUTBOX_STORE = 'outbox';
+const LOCAL_STORES = { bookmarks: 'localBookmarks', folders: 'localFolders' };
+
+export type LocalRecordKind = keyof typeof LOCAL_STORES;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE);
+        }
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+        }
+        for (const storeName of Object.values(LOCAL_STORES)) {
+          if (!db.objectStoreNames.contains(storeName)) {
+            db.createObjectStore(storeName, { keyPath: 'id' });
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export const offlineStore = {
+  readCache: async <T>(key: string): Promise<T | undefined> => {
+    try {
+      return await run<T | undefined>(CACHE_STORE, 'readonly', store => store.get(key));
+    } catch (err) {
+      console.warn('Failed to read offline cache:', err);
+      return undefined;
+    }
+  },
+
+  writeCache: async (key: string, value: unknown) => {
+    try {
+      await run(CACHE_STORE, 'readwrite', store => store.put(value, key));
+    } catch (err) {
+      console.warn('Failed to write offline cache:', err);
+    }
+  },
+
+  // Entries come back in the order they were added
+  getOutbox: <T>() => run<T[]>(OUTBOX_STORE, 'readonly', store => store.getAll()),
+
+  addToOutbox: <T>(entry: T) =>
+    run<IDBValidKey>(OUTBOX_STORE, 'readwrite', store => store.add(entry)).then(Number),
+
+  putInOutbox: <T>(entry: T) => run(OUTBOX_STORE, 'readwrite', store => store.put(entry)),
+
+  removeFromOutbox: (id: number) =>
+    run(OUTBOX_STORE, 'readwrite', store => store.delete(id)).then(() => undefined),
+
+  getLocalRecords: <T>(kind: LocalRecordKind) =>
+    run<T[]>(LOCAL_STORES[kind], 'readonly', store => store.getAll()),
+
+  getLocalRecord: <T>(kind: LocalRecordKind, id: string) =>
+    run<T | undefined>(LOCAL_STORES[kind], 'readonly', store => store.get(id)),
+
+  putLocalRecord: <T extends { id: string }>(kind: LocalRecordKind, record: T) =>
+    run(LOCAL_STORES[kind], 'readwrite', store => store.put(record)).then(() => record),
+
+  removeLocalRecord: (kind: LocalRecordKind, id: string) =>
+    run(LOCAL_STORES[kind], 'readwrite', store => store.delete(id)).then(() => undefined),
+};
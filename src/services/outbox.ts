@@ -0,0 +1,259 @@
+import { Bookmark, Folder } from '../types';
+import { ApiConnection, createApiClient, NewBookmark } from './apiClient';
+import { StorageBackend } from './storageBackend';
+import { offlineStore } from './offlineStore';
+import { ApiError } from './apiError';
+
+// Changes that can be made while the API is unreachable. Items created offline get a local
+// id which is swapped for the server's id once their create request has gone through.
+export interface OutboxChanges {
+  createBookmark: { tempId: string; bookmark: NewBookmark };
+  updateBookmark: { bookmark: Bookmark };
+  deleteBookmark: { bookmarkId: string };
+  createFolder: { tempId: string; name: string; parentId: string | null };
+  updateFolder: { folderId: string; name: string };
+  moveFolder: { folderId: string; name: string; parentId: string | null };
+  deleteFolder: { folderId: string };
+}
+
+interface OutboxResults {
+  createBookmark: Bookmark;
+  updateBookmark: Bookmark;
+  deleteBookmark: void;
+  createFolder: Folder;
+  updateFolder: Folder;
+  moveFolder: Folder;
+  deleteFolder: void;
+}
+
+type ChangeType = keyof OutboxChanges;
+
+export type OutboxChange = {
+  [K in ChangeType]: { type: K; payload: OutboxChanges[K] };
+}[ChangeType];
+
+// Changes remember the server and key they were made with, so they still go to the right
+// place when a different profile is active by the time they are replayed
+type OutboxEntry = OutboxChange & { id: number; connection?: ApiConnection };
+
+export type SendOutcome<T> = { queued: false; result: T } | { queued: true };
+
+export interface OutboxStatus {
+  pendingCount: number;
+  // False after a request failed because the API could not be reached
+  isReachable: boolean;
+  isSyncing: boolean;
+}
+
+const senders: {
+  [K in ChangeType]: (api: StorageBackend, payload: OutboxChanges[K]) => Promise<OutboxResults[K]>;
+} = {
+  createBookmark: (api, { bookmark }) => api.createBookmark(bookmark),
+  updateBookmark: (api, { bookmark }) => api.updateBookmark(bookmark),
+  deleteBookmark: (api, { bookmarkId }) => api.deleteBookmark(bookmarkId),
+  createFolder: (api, { name, parentId }) => api.createFolder(name, parentId),
+  updateFolder: (api, { folderId, name }) => api.updateFolder(folderId, name),
+  moveFolder: (api, { folderId, name, parentId }) => api.moveFolder(folderId, name, parentId),
+  deleteFolder: (api, { folderId }) => api.deleteFolder(folderId),
+};
+
+const LOCAL_ID_PREFIX = 'local-';
+
+export const createLocalId = () =>
+  `${LOCAL_ID_PREFIX}${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const isLocalId = (id: string | null) => !!id && id.startsWith(LOCAL_ID_PREFIX);
+
+// Timeouts are not included: the server may have applied the change after all
+export const isNetworkError = (err: unknown) =>
+  !navigator.onLine || (err instanceof ApiError && err.code === 'network');
+
+let status: OutboxStatus = { pendingCount: 0, isReachable: true, isSyncing: false };
+const listeners = new Set<(status: OutboxStatus) => void>();
+// Local ids whose create has been synced, mapped to the ids the server gave them
+const syncedIds = new Map<string, string>();
+
+function setStatus(update: Partial<OutboxStatus>) {
+  status = { ...status, ...update };
+  listeners.forEach(listener => listener(status));
+}
+
+const countPending = offlineStore
+  .getOutbox()
+  .then(entries => setStatus({ pendingCount: entries.length }))
+  .catch(err => console.warn('Failed to read the offline outbox:', err));
+
+function sendChange<K extends ChangeType>(
+  api: StorageBackend,
+  change: { type: K; payload: OutboxChanges[K] }
+): Promise<OutboxResults[K]> {
+  return senders[change.type](api, change.payload);
+}
+
+function remapIds(change: OutboxChange): OutboxChange {
+  const resolve = <T extends string | null>(id: T): T => ((id && syncedIds.get(id)) || id) as T;
+
+  switch (change.type) {
+    case 'createBookmark':
+      return {
+        ...change,
+        payload: {
+          ...change.payload,
+          bookmark: {
+            ...change.payload.bookmark,
+            folderId: resolve(change.payload.bookmark.folderId),
+          },
+        },
+      };
+    case 'updateBookmark': {
+      const { bookmark } = change.payload;
+      return {
+        ...change,
+        payload: {
+          bookmark: { ...bookmark, id: resolve(bookmark.id), folderId: resolve(bookmark.folderId) },
+        },
+      };
+    }
+    case 'deleteBookmark':
+      return { ...change, payload: { bookmarkId: resolve(change.payload.bookmarkId) } };
+    case 'createFolder':
+      return {
+        ...change,
+        payload: { ...change.payload, parentId: resolve(change.payload.parentId) },
+      };
+    case 'updateFolder':
+      return {
+        ...change,
+        payload: { ...change.payload, folderId: resolve(change.payload.folderId) },
+      };
+    case 'moveFolder':
+      return {
+        ...change,
+        payload: {
+          ...change.payload,
+          folderId: resolve(change.payload.folderId),
+          parentId: resolve(change.payload.parentId),
+        },
+      };
+    case 'deleteFolder':
+      return { ...change, payload: { folderId: resolve(change.payload.folderId) } };
+  }
+}
+
+// Rewrites queued changes that still refer to local ids which have since been synced, so
+// they survive a reload of the page
+async function persistSyncedIds(entries: OutboxEntry[]) {
+  for (const entry of entries) {
+    const remapped = remapIds(entry);
+    if (JSON.stringify(remapped) !== JSON.stringify(entry)) {
+      await offlineStore.putInOutbox({ ...remapped, id: entry.id, connection: entry.connection });
+    }
+  }
+}
+
+async function enqueue(change: OutboxChange, connection: ApiConnection) {
+  await offlineStore.addToOutbox({ ...change, connection });
+  setStatus({ pendingCount: status.pendingCount + 1 });
+}
+
+export const outbox = {
+  getStatus: () => status,
+
+  // The server's id for an item created offline, once its create has been synced
+  resolveId: (id: string) => syncedIds.get(id) || id,
+
+  // Lets loads that fail or succeed outside the outbox update the offline indicator
+  setReachable: (isReachable: boolean) => {
+    if (status.isReachable !== isReachable) setStatus({ isReachable });
+  },
+
+  subscribe: (listener: (status: OutboxStatus) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  // Sends the change right away when possible. While offline, or while older changes are
+  // still waiting, it is queued instead so that changes reach the server in order.
+  // Backends without an API behind them are always written to directly.
+  send: async <K extends ChangeType>(
+    api: StorageBackend,
+    type: K,
+    payload: OutboxChanges[K]
+  ): Promise<SendOutcome<OutboxResults[K]>> => {
+    const { connection } = api;
+    if (!connection) {
+      return { queued: false, result: await sendChange(api, { type, payload }) };
+    }
+
+    await countPending;
+    const change = remapIds({ type, payload } as OutboxChange);
+
+    if (!navigator.onLine || status.pendingCount > 0) {
+      await enqueue(change, connection);
+      return { queued: true };
+    }
+
+    try {
+      const result = await sendChange(api, change as { type: K; payload: OutboxChanges[K] });
+      if (!status.isReachable) setStatus({ isReachable: true });
+      return { queued: false, result };
+    } catch (err) {
+      if (!isNetworkError(err)) throw err;
+      setStatus({ isReachable: false });
+      await enqueue(change, connection);
+      return { queued: true };
+    }
+  },
+
+  // Sends the queued changes in order, each to the server it was made for. Stops at the
+  // first network failure and leaves the rest queued; changes the server rejects are
+  // dropped and counted as failed. `api` is used for changes queued before they recorded
+  // their connection; while it is a browser-only backend those stay queued.
+  replay: async (api: StorageBackend): Promise<{ synced: number; failed: number }> => {
+    await countPending;
+    const summary = { synced: 0, failed: 0 };
+    if (status.isSyncing) return summary;
+
+    setStatus({ isSyncing: true });
+    try {
+      let entries = await offlineStore.getOutbox<OutboxEntry>();
+      while (entries.length > 0) {
+        for (const [index, entry] of entries.entries()) {
+          const change = remapIds(entry);
+          const connection = entry.connection ?? api.connection;
+          if (!connection) {
+            await persistSyncedIds(entries.slice(index));
+            return summary;
+          }
+          try {
+            const result = await sendChange(createApiClient(connection), change);
+            if (change.type === 'createBookmark' || change.type === 'createFolder') {
+              syncedIds.set(change.payload.tempId, (result as Bookmark | Folder).id);
+            }
+            summary.synced++;
+          } catch (err) {
+            if (isNetworkError(err)) {
+              setStatus({ isReachable: false });
+              await persistSyncedIds(entries.slice(index));
+              return summary;
+            }
+            console.error('Dropping queued change the server rejected:', change, err);
+            summary.failed++;
+          }
+
+          await offlineStore.removeFromOutbox(entry.id);
+          setStatus({ pendingCount: Math.max(status.pendingCount - 1, 0) });
+        }
+        // Pick up anything queued while the earlier changes were being sent
+        entries = await offlineStore.getOutbox<OutboxEntry>();
+      }
+
+      setStatus({ isReachable: true });
+      return summary;
+    } finally {
+      setStatus({ isSyncing: false });
+    }
+  },
+};
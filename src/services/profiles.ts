@@ -0,0 +1,51 @@
+import { ApiProfile, AppConfig } from '../types';
+import { DEFAULT_API_BASE_URL } from './apiClient';
+
+export const PROFILE_COLORS = [
+  '#2563eb',
+  '#16a34a',
+  '#ea580c',
+  '#dc2626',
+  '#9333ea',
+  '#0891b2',
+  '#ca8a04',
+  '#4b5563',
+];
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+export function createProfile(
+  profiles: ApiProfile[],
+  fields: Partial<ApiProfile> = {}
+): ApiProfile {
+  const usedColors = profiles.map(profile => profile.color);
+  return {
+    id: `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    label: `Profile ${profiles.length + 1}`,
+    storage: 'api',
+    baseUrl: DEFAULT_API_BASE_URL,
+    apiKey: '',
+    color: PROFILE_COLORS.find(color => !usedColors.includes(color)) || PROFILE_COLORS[0],
+    ...fields,
+  };
+}
+
+// Configs saved before profiles existed hold a single API key for the default server
+export function migrateProfiles(saved: Partial<AppConfig> & { apiKey?: string }) {
+  const { apiKey, ...config } = saved;
+  if (config.profiles && config.profiles.length > 0) return config;
+
+  return {
+    ...config,
+    profiles: [
+      createProfile([], { id: DEFAULT_PROFILE_ID, label: 'Default', apiKey: apiKey || '' }),
+    ],
+    activeProfileId: DEFAULT_PROFILE_ID,
+  };
+}
+
+export function getActiveProfile(config: AppConfig): ApiProfile {
+  return (
+    config.profiles.find(profile => profile.id === config.activeProfileId) || config.profiles[0]
+  );
+}
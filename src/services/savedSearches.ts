@@ -0,0 +1,32 @@
+import { BookmarkFilter, isSameFilter } from './bookmarkFilter';
+
+// A search and filter kept under a name, shown as a smart folder in the sidebar
+export interface SavedSearch {
+  id: string;
+  name: string;
+  // The search box contents
+  search: string;
+  filter: BookmarkFilter;
+}
+
+export const createSavedSearch = (
+  name: string,
+  search: string,
+  filter: BookmarkFilter
+): SavedSearch => ({ id: crypto.randomUUID(), name, search: search.trim(), filter });
+
+// Whether the saved search is what is on screen
+export const isShowingSavedSearch = (saved: SavedSearch, search: string, filter: BookmarkFilter) =>
+  saved.search === search.trim() && isSameFilter(saved.filter, filter);
+
+// Moves the saved search `offset` places up (negative) or down the list
+export function moveSavedSearch(searches: SavedSearch[], id: string, offset: number) {
+  const index = searches.findIndex(saved => saved.id === id);
+  const target = index + offset;
+  if (index < 0 || target < 0 || target >= searches.length) return searches;
+
+  const moved = [...searches];
+  const [saved] = moved.splice(index, 1);
+  moved.splice(target, 0, saved);
+  return moved;
+}
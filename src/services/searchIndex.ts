@@ -0,0 +1,167 @@
+import { Bookmark } from '../types';
+
+export interface SearchIndexResult {
+  // Bookmark ids matching each query term, typos included
+  termMatches: Record<string, string[]>;
+  scores: Record<string, number>;
+  // The indexed words each bookmark matched, used to highlight them in the UI
+  matchedWords: Record<string, string[]>;
+}
+
+export type SearchWorkerRequest =
+  | { type: 'update'; upserts: Bookmark[]; removals: string[] }
+  | { type: 'search'; requestId: number; terms: string[] };
+
+export interface SearchWorkerResponse {
+  requestId: number;
+  result: SearchIndexResult;
+}
+
+const FIELD_WEIGHTS = {
+  title: 3,
+  tags: 2.5,
+  url: 1.5,
+  description: 1,
+} as const;
+
+type IndexedField = keyof typeof FIELD_WEIGHTS;
+
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.8;
+const FUZZY_MATCH = [1, 0.6, 0.4];
+
+export function tokenizeText(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+function fieldText(bookmark: Bookmark, field: IndexedField) {
+  return field === 'tags' ? bookmark.tags.join(' ') : bookmark[field];
+}
+
+// Longer words tolerate more typos; short ones must match exactly or by prefix
+const maxTypos = (length: number) => (length >= 8 ? 2 : length >= 4 ? 1 : 0);
+
+// Damerau-Levenshtein distance that gives up as soon as it exceeds `limit`
+function editDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMinimum = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMinimum = Math.min(rowMinimum, value);
+    }
+    if (rowMinimum > limit) return limit + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+export function createSearchIndex() {
+  // word -> bookmark id -> weighted number of occurrences
+  const postings = new Map<string, Map<string, number>>();
+  const documentWords = new Map<string, Set<string>>();
+
+  const remove = (id: string) => {
+    const words = documentWords.get(id);
+    if (!words) return;
+
+    words.forEach(word => {
+      const posting = postings.get(word);
+      posting?.delete(id);
+      if (posting && posting.size === 0) postings.delete(word);
+    });
+    documentWords.delete(id);
+  };
+
+  const upsert = (bookmark: Bookmark) => {
+    remove(bookmark.id);
+
+    const words = new Set<string>();
+    (Object.keys(FIELD_WEIGHTS) as IndexedField[]).forEach(field => {
+      tokenizeText(fieldText(bookmark, field)).forEach(word => {
+        words.add(word);
+        const posting = postings.get(word) || new Map<string, number>();
+        posting.set(bookmark.id, (posting.get(bookmark.id) || 0) + FIELD_WEIGHTS[field]);
+        postings.set(word, posting);
+      });
+    });
+    documentWords.set(bookmark.id, words);
+  };
+
+  // Finds indexed words close to the query word, with a quality between 0 and 1
+  const expandWord = (queryWord: string): Map<string, number> => {
+    const candidates = new Map<string, number>();
+    const limit = maxTypos(queryWord.length);
+
+    postings.forEach((_, word) => {
+      if (word === queryWord) {
+        candidates.set(word, EXACT_MATCH);
+      } else if (queryWord.length >= 2 && word.startsWith(queryWord)) {
+        candidates.set(word, PREFIX_MATCH);
+      } else if (limit > 0) {
+        const distance = editDistance(queryWord, word, limit);
+        if (distance <= limit) candidates.set(word, FUZZY_MATCH[distance]);
+      }
+    });
+
+    return candidates;
+  };
+
+  const search = (terms: string[]): SearchIndexResult => {
+    const totalDocuments = Math.max(documentWords.size, 1);
+    const scores: Record<string, number> = {};
+    const matchedWords: Record<string, Set<string>> = {};
+    const termMatches: Record<string, string[]> = {};
+
+    terms.forEach(term => {
+      const idsPerWord: Set<string>[] = [];
+
+      // Every word of a term has to match for the term to match
+      for (const queryWord of tokenizeText(term)) {
+        const wordIds = new Set<string>();
+        expandWord(queryWord).forEach((quality, word) => {
+          const posting = postings.get(word)!;
+          const idf = Math.log(1 + totalDocuments / posting.size);
+          posting.forEach((weight, id) => {
+            wordIds.add(id);
+            scores[id] = (scores[id] || 0) + quality * weight * idf;
+            (matchedWords[id] ||= new Set()).add(word);
+          });
+        });
+        idsPerWord.push(wordIds);
+      }
+
+      const [first, ...rest] = idsPerWord;
+      termMatches[term] = first ? [...first].filter(id => rest.every(ids => ids.has(id))) : [];
+    });
+
+    return {
+      termMatches,
+      scores,
+      matchedWords: Object.fromEntries(
+        Object.entries(matchedWords).map(([id, words]) => [id, Array.from(words)])
+      ),
+    };
+  };
+
+  return {
+    upsert,
+    remove,
+    search,
+  };
+}
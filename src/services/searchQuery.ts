@@ -0,0 +1,257 @@
+import { Bookmark } from '../types';
+import { tagMatches } from './tagTree';
+
+export type DateComparison = '<' | '<=' | '>' | '>=' | '=';
+
+export type SearchTerm =
+  // Quoted text is looked for as a phrase
+  | { type: 'text'; value: string; negated: boolean; quoted: boolean }
+  | { type: 'tag'; value: string; negated: boolean }
+  | { type: 'folder'; value: string; negated: boolean }
+  | { type: 'site'; value: string; negated: boolean }
+  | { type: 'is'; value: 'favorite'; negated: boolean }
+  | { type: 'added'; comparison: DateComparison; date: string; negated: boolean };
+
+// A query is an OR of groups whose terms must all match, so `a b OR c` reads as
+// (a AND b) OR c. An empty query matches everything.
+export interface SearchQuery {
+  groups: SearchTerm[][];
+}
+
+export interface SearchQueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+interface Token {
+  negated: boolean;
+  field: string | null;
+  value: string;
+  quoted: boolean;
+  start: number;
+  end: number;
+}
+
+export const SEARCH_OPERATORS = ['tag', 'folder', 'site', 'is', 'added'] as const;
+
+function tokenize(input: string, errors: SearchQueryError[]): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  const readValue = (): { value: string; quoted: boolean } => {
+    if (input[position] === '"') {
+      const closing = input.indexOf('"', position + 1);
+      if (closing === -1) {
+        errors.push({ message: 'Missing closing quote', start: position, end: input.length });
+        const value = input.slice(position + 1);
+        position = input.length;
+        return { value, quoted: true };
+      }
+      const value = input.slice(position + 1, closing);
+      position = closing + 1;
+      return { value, quoted: true };
+    }
+
+    const begin = position;
+    while (position < input.length && !/\s/.test(input[position])) position++;
+    return { value: input.slice(begin, position), quoted: false };
+  };
+
+  while (position < input.length) {
+    if (/\s/.test(input[position])) {
+      position++;
+      continue;
+    }
+
+    const start = position;
+    const negated = input[position] === '-' && position + 1 < input.length;
+    if (negated) position++;
+
+    const fieldMatch = /^([a-z]+):/i.exec(input.slice(position));
+    let field: string | null = null;
+    // "https://…" is a URL being searched for, not an operator
+    const isUrl = fieldMatch && input.startsWith('//', position + fieldMatch[0].length);
+    if (fieldMatch && !isUrl) {
+      field = fieldMatch[1].toLowerCase();
+      position += fieldMatch[0].length;
+    }
+
+    const { value, quoted } = readValue();
+    tokens.push({ negated, field, value, quoted, start, end: position });
+  }
+
+  return tokens;
+}
+
+function toTerm(token: Token, errors: SearchQueryError[]): SearchTerm | null {
+  const { negated, field, value, quoted, start, end } = token;
+  const fail = (message: string) => {
+    errors.push({ message, start, end });
+    return null;
+  };
+
+  if (field === null) {
+    return value ? { type: 'text', value, negated, quoted } : null;
+  }
+
+  if (!(SEARCH_OPERATORS as readonly string[]).includes(field)) {
+    return fail(`Unknown operator "${field}:" (try ${SEARCH_OPERATORS.join(':, ')}:)`);
+  }
+
+  if (!value) {
+    return fail(`"${field}:" needs a value`);
+  }
+
+  switch (field) {
+    case 'tag':
+    case 'folder':
+    case 'site':
+      return { type: field, value, negated };
+    case 'is':
+      if (['favorite', 'favourite', 'fav', 'starred'].includes(value.toLowerCase())) {
+        return { type: 'is', value: 'favorite', negated };
+      }
+      return fail(`Unknown value "is:${value}" (try is:favorite)`);
+    default: {
+      const match = /^(<=|>=|<|>|=)?(\d{4}-\d{2}-\d{2})$/.exec(value);
+      if (!match || Number.isNaN(Date.parse(match[2]))) {
+        return fail('Dates look like added:>2025-01-01 (also <, <=, >=, =)');
+      }
+      return {
+        type: 'added',
+        comparison: (match[1] as DateComparison | undefined) || '=',
+        date: match[2],
+        negated,
+      };
+    }
+  }
+}
+
+export function parseSearchQuery(input: string): {
+  query: SearchQuery;
+  errors: SearchQueryError[];
+} {
+  const errors: SearchQueryError[] = [];
+  const tokens = tokenize(input, errors);
+  const groups: SearchTerm[][] = [[]];
+
+  tokens.forEach((token, index) => {
+    const isOr = !token.quoted && !token.negated && token.field === null && token.value === 'OR';
+    if (isOr) {
+      if (index === 0 || index === tokens.length - 1 || groups[groups.length - 1].length === 0) {
+        errors.push({
+          message: 'OR needs a search term on both sides',
+          start: token.start,
+          end: token.end,
+        });
+        return;
+      }
+      groups.push([]);
+      return;
+    }
+
+    const term = toTerm(token, errors);
+    if (term) groups[groups.length - 1].push(term);
+  });
+
+  return { query: { groups: groups.filter(group => group.length > 0) }, errors };
+}
+
+export function isEmptySearchQuery(query: SearchQuery) {
+  return query.groups.length === 0;
+}
+
+const hostnameOf = (url: string) => {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+};
+
+function compareDates(bookmarkDate: string, comparison: DateComparison, date: string) {
+  const day = bookmarkDate.slice(0, 10);
+  if (!day) return false;
+  switch (comparison) {
+    case '<':
+      return day < date;
+    case '<=':
+      return day <= date;
+    case '>':
+      return day > date;
+    case '>=':
+      return day >= date;
+    default:
+      return day === date;
+  }
+}
+
+function matchesTerm(
+  bookmark: Bookmark,
+  term: SearchTerm,
+  getFolderPathName: (folderId: string | null) => string
+): boolean {
+  switch (term.type) {
+    case 'text': {
+      const needle = term.value.toLowerCase();
+      return (
+        bookmark.title.toLowerCase().includes(needle) ||
+        bookmark.url.toLowerCase().includes(needle) ||
+        bookmark.description.toLowerCase().includes(needle) ||
+        bookmark.tags.some(tag => tag.toLowerCase().includes(needle))
+      );
+    }
+    case 'tag': {
+      // Also matches the tags nested under it, as selecting the tag in the sidebar does
+      const wanted = term.value.toLowerCase();
+      return bookmark.tags.some(tag => tagMatches(tag.toLowerCase(), wanted));
+    }
+    case 'folder': {
+      if (!bookmark.folderId) return false;
+      // Matching a folder also matches everything inside its subfolders
+      const path = getFolderPathName(bookmark.folderId).toLowerCase();
+      const wanted = term.value.toLowerCase();
+      return path === wanted || path.startsWith(`${wanted} > `);
+    }
+    case 'site': {
+      const host = hostnameOf(bookmark.url);
+      const wanted = term.value.toLowerCase().replace(/^www\./, '');
+      return host === wanted || host.endsWith(`.${wanted}`);
+    }
+    case 'is':
+      return bookmark.favorite;
+    case 'added':
+      return compareDates(bookmark.dateAdded, term.comparison, term.date);
+  }
+}
+
+// The free-text terms that can be ranked by relevance; negated terms only filter
+export function getRankableTerms(query: SearchQuery): string[] {
+  const terms = query.groups.flatMap(group =>
+    group.flatMap(term => (term.type === 'text' && !term.negated ? [term.value] : []))
+  );
+  return Array.from(new Set(terms));
+}
+
+// matchText lets the caller match more bookmarks than the plain substring check for
+// positive, unquoted free-text terms, e.g. with the typo-tolerant search index. Phrases
+// and what the substring check finds always match, whether or not matchText knows them.
+export function matchesSearchQuery(
+  bookmark: Bookmark,
+  query: SearchQuery,
+  getFolderPathName: (folderId: string | null) => string,
+  matchText?: (bookmark: Bookmark, value: string) => boolean
+): boolean {
+  if (isEmptySearchQuery(query)) return true;
+
+  return query.groups.some(group =>
+    group.every(term => {
+      const matches = matchesTerm(bookmark, term, getFolderPathName);
+      if (term.type === 'text' && !term.negated && !term.quoted && matchText) {
+        return matches || matchText(bookmark, term.value);
+      }
+      return matches !== term.negated;
+    })
+  );
+}
@@ -0,0 +1,86 @@
+import { ShortcutAction, Shortcuts } from '../types';
+
+export const SHORTCUT_ACTIONS: { action: ShortcutAction; label: string }[] = [
+  { action: 'focusSearch', label: 'Search bookmarks' },
+  { action: 'next', label: 'Next bookmark' },
+  { action: 'previous', label: 'Previous bookmark' },
+  { action: 'open', label: 'Open the link' },
+  { action: 'edit', label: 'Edit the bookmark' },
+  { action: 'favorite', label: 'Add to or remove from favorites' },
+  { action: 'newBookmark', label: 'New bookmark' },
+  { action: 'goFavorites', label: 'Go to favorites' },
+  { action: 'showHelp', label: 'Show keyboard shortcuts' },
+];
+
+// A binding is a key, or keys pressed one after the other separated by spaces, named as in
+// KeyboardEvent.key with `Space` for the space bar
+export const DEFAULT_SHORTCUTS: Shortcuts = {
+  focusSearch: ['/'],
+  next: ['j', 'ArrowDown'],
+  previous: ['k', 'ArrowUp'],
+  open: ['Enter'],
+  edit: ['e'],
+  favorite: ['f'],
+  newBookmark: ['n'],
+  goFavorites: ['g f'],
+  showHelp: ['?'],
+};
+
+// How long to wait for the next key of a sequence such as `g f`
+export const SEQUENCE_TIMEOUT = 1000;
+
+export const isEditingText = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+export const keyName = (e: KeyboardEvent) => (e.key === ' ' ? 'Space' : e.key);
+
+// Bindings are edited as a comma-separated list: `j, ArrowDown`
+export const parseBindings = (text: string) =>
+  Array.from(
+    new Set(
+      text
+        .split(',')
+        .map(binding => binding.trim().split(/\s+/).join(' '))
+        .filter(Boolean)
+    )
+  );
+
+export const formatBindings = (bindings: string[]) => bindings.join(', ');
+
+// Fills in actions added since the shortcuts were saved
+export const withDefaultShortcuts = (shortcuts: Partial<Shortcuts> | undefined): Shortcuts => ({
+  ...DEFAULT_SHORTCUTS,
+  ...shortcuts,
+});
+
+// The action bound to the keys pressed so far, 'partial' while they start a longer
+// binding, or null when nothing is bound to them
+export function matchShortcut(
+  shortcuts: Shortcuts,
+  keys: string[]
+): ShortcutAction | 'partial' | null {
+  const pressed = keys.join(' ');
+  let isPartial = false;
+  for (const { action } of SHORTCUT_ACTIONS) {
+    for (const binding of shortcuts[action]) {
+      if (binding === pressed) return action;
+      if (binding.startsWith(`${pressed} `)) isPartial = true;
+    }
+  }
+  return isPartial ? 'partial' : null;
+}
+
+// A binding used twice, or one that starts another and so would hide it, which makes the
+// shortcuts ambiguous
+export function findConflictingBinding(shortcuts: Shortcuts): string | null {
+  const bindings = SHORTCUT_ACTIONS.flatMap(({ action }) => shortcuts[action]);
+  for (const [index, binding] of bindings.entries()) {
+    const clash = bindings.find(
+      (other, otherIndex) =>
+        otherIndex !== index && (other === binding || other.startsWith(`${binding} `))
+    );
+    if (clash !== undefined) return binding;
+  }
+  return null;
+}
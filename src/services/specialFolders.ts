@@ -0,0 +1,11 @@
+// Views that are selected like folders but gather bookmarks from everywhere
+export const SPECIAL_FOLDERS = ['all', 'favorites', 'broken-links', 'duplicates'] as const;
+
+export type SpecialFolder = (typeof SPECIAL_FOLDERS)[number];
+
+export const isSpecialFolder = (folderId: string | null): folderId is SpecialFolder =>
+  (SPECIAL_FOLDERS as readonly (string | null)[]).includes(folderId);
+
+// The folder new bookmarks go into while the given folder or view is selected
+export const folderForNewBookmarks = (selectedFolder: string | null) =>
+  isSpecialFolder(selectedFolder) ? null : selectedFolder;
@@ -0,0 +1,66 @@
+import { Bookmark, Folder, StorageKind } from '../types';
+import {
+  ApiConnection,
+  BookmarkPage,
+  BookmarkPageQuery,
+  createApiClient,
+  NewBookmark,
+} from './apiClient';
+import { localBackend } from './localBackend';
+import { SavedSearch } from './savedSearches';
+
+// What the data hooks need from wherever the bookmarks and folders are kept. The API client
+// is one implementation, the browser-only store in localBackend the other.
+export interface StorageBackend {
+  // Identifies where the data lives, e.g. to keep cached copies apart
+  id: string;
+  // The API behind the backend; null for backends that never go over the network, whose
+  // changes are therefore never queued in the outbox
+  connection: ApiConnection | null;
+  getBookmarks: () => Promise<Bookmark[]>;
+  // Backends that cannot page return every bookmark as an array
+  getBookmarkPage: (
+    query: BookmarkPageQuery & { cursor?: string; limit: number }
+  ) => Promise<BookmarkPage | Bookmark[]>;
+  createBookmark: (bookmark: NewBookmark) => Promise<Bookmark>;
+  updateBookmark: (bookmark: Bookmark) => Promise<Bookmark>;
+  deleteBookmark: (id: string) => Promise<void>;
+  getFolders: () => Promise<Folder[]>;
+  createFolder: (name: string, parentId: string | null) => Promise<Folder>;
+  updateFolder: (folderId: string, name: string) => Promise<Folder>;
+  moveFolder: (folderId: string, name: string, parentId: string | null) => Promise<Folder>;
+  deleteFolder: (folderId: string) => Promise<void>;
+  // Backends without these keep saved searches on this device only
+  getSavedSearches?: () => Promise<SavedSearch[]>;
+  replaceSavedSearches?: (searches: SavedSearch[]) => Promise<SavedSearch[]>;
+}
+
+export function createStorageBackend({
+  storage = 'api',
+  baseUrl,
+  apiKey,
+}: ApiConnection & { storage?: StorageKind }): StorageBackend {
+  return storage === 'local' ? localBackend : createApiClient({ baseUrl, apiKey });
+}
+
+// How many bookmarks to ask for at a time when following the pages to the end
+export const FULL_PAGE_SIZE = 200;
+
+// The rest of the bookmarks after the first page of an unfiltered query
+export async function loadRemainingPages(backend: StorageBackend, first: BookmarkPage) {
+  const items = [...first.items];
+  let cursor = first.nextCursor;
+  while (cursor) {
+    const response = await backend.getBookmarkPage({ cursor, limit: FULL_PAGE_SIZE });
+    if (Array.isArray(response)) return response;
+    items.push(...response.items);
+    cursor = response.nextCursor;
+  }
+  return items;
+}
+
+// Every bookmark, whether or not the backend sends them a page at a time
+export async function loadAllBookmarks(backend: StorageBackend): Promise<Bookmark[]> {
+  const response = await backend.getBookmarkPage({ limit: FULL_PAGE_SIZE });
+  return Array.isArray(response) ? response : loadRemainingPages(backend, response);
+}
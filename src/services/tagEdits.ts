@@ -0,0 +1,26 @@
+import { Bookmark } from '../types';
+
+// A change made to the tags of every bookmark: the `from` tags are replaced by `to`, or
+// removed when `to` is null. Renaming a tag is merging it alone into the new name.
+export interface TagEdit {
+  from: string[];
+  to: string | null;
+}
+
+export function applyTagEdit(tags: string[], edit: TagEdit): string[] {
+  const replaced = tags.flatMap(tag =>
+    edit.from.includes(tag) ? (edit.to === null ? [] : [edit.to]) : [tag]
+  );
+  return Array.from(new Set(replaced));
+}
+
+// The bookmarks whose tags the edit would change
+export function bookmarksAffectedByTagEdit(bookmarks: Bookmark[], edit: TagEdit): Bookmark[] {
+  return bookmarks.filter(bookmark => {
+    const edited = applyTagEdit(bookmark.tags, edit);
+    return (
+      edited.length !== bookmark.tags.length ||
+      edited.some((tag, index) => tag !== bookmark.tags[index])
+    );
+  });
+}
@@ -0,0 +1,79 @@
+import { TagNormalization } from '../types';
+import { TAG_SEPARATOR } from './tagTree';
+
+export const DEFAULT_TAG_NORMALIZATION: TagNormalization = {
+  trim: true,
+  lowercase: false,
+  synonyms: {},
+};
+
+export function normalizeTag(tag: string, options: TagNormalization): string {
+  const clean = (value: string) => {
+    const trimmed = options.trim
+      ? value
+          .split(TAG_SEPARATOR)
+          .map(part => part.trim())
+          .join(TAG_SEPARATOR)
+      : value;
+    return options.lowercase ? trimmed.toLowerCase() : trimmed;
+  };
+
+  const normalized = clean(tag);
+  const synonym = options.synonyms[normalized.toLowerCase()];
+  return synonym === undefined ? normalized : clean(synonym);
+}
+
+// Normalizes every tag, dropping empty ones and those that end up the same as another
+export function normalizeTags(tags: string[], options: TagNormalization): string[] {
+  return Array.from(new Set(tags.map(tag => normalizeTag(tag, options)).filter(tag => tag.trim())));
+}
+
+// Splits what was typed or pasted into the tag box into separate tags
+export const splitTagInput = (text: string) =>
+  text
+    .split(/[,\n]/)
+    .map(tag => tag.trim())
+    .filter(Boolean);
+
+// Synonyms are edited as one line per tag: `reactjs, react.js = react`
+export function parseSynonyms(text: string): Record<string, string> {
+  const synonyms: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const separatorIndex = line.lastIndexOf('=');
+    if (separatorIndex < 0) continue;
+    const tag = line.slice(separatorIndex + 1).trim();
+    if (!tag) continue;
+    for (const alias of splitTagInput(line.slice(0, separatorIndex))) {
+      synonyms[alias.toLowerCase()] = tag;
+    }
+  }
+  return synonyms;
+}
+
+export function formatSynonyms(synonyms: Record<string, string>): string {
+  const aliasesByTag = new Map<string, string[]>();
+  for (const [alias, tag] of Object.entries(synonyms)) {
+    aliasesByTag.set(tag, [...(aliasesByTag.get(tag) || []), alias]);
+  }
+  return Array.from(aliasesByTag, ([tag, aliases]) => `${aliases.join(', ')} = ${tag}`).join('\n');
+}
+
+// Existing tags that complete what is being typed: tags starting with it come before tags
+// that only contain it, and more used tags before less used ones
+export function suggestTags(
+  input: string,
+  usage: Map<string, number>,
+  exclude: string[],
+  limit = 8
+): string[] {
+  const needle = input.trim().toLowerCase();
+  if (!needle) return [];
+
+  const rank = (tag: string) => (tag.toLowerCase().startsWith(needle) ? 0 : 1);
+  return Array.from(usage.keys())
+    .filter(tag => !exclude.includes(tag) && tag.toLowerCase().includes(needle))
+    .sort(
+      (a, b) => rank(a) - rank(b) || (usage.get(b) || 0) - (usage.get(a) || 0) || a.localeCompare(b)
+    )
+    .slice(0, limit);
+}
@@ -0,0 +1,65 @@
+import { Bookmark } from '../types';
+
+// Tags such as `lang/typescript` are nested under `lang`
+export const TAG_SEPARATOR = '/';
+
+export interface TagNode {
+  // The full tag, e.g. `lang/typescript`
+  path: string;
+  // The last part of the path, e.g. `typescript`
+  name: string;
+  // Bookmarks carrying the tag or any tag below it, each counted once
+  count: number;
+  children: TagNode[];
+}
+
+// Whether a bookmark's tag is matched by selecting `selected`, which also matches every
+// tag nested under it
+export const tagMatches = (tag: string, selected: string) =>
+  tag === selected || tag.startsWith(`${selected}${TAG_SEPARATOR}`);
+
+// The tag and every parent above it: `a/b/c` gives `a`, `a/b` and `a/b/c`
+function tagAncestry(tag: string): string[] {
+  const parts = tag.split(TAG_SEPARATOR);
+  return parts.map((_, index) => parts.slice(0, index + 1).join(TAG_SEPARATOR));
+}
+
+// Builds the tag hierarchy, sorted by name at every level. Parents that are not used as
+// tags themselves still get a node so that their children can be grouped under them.
+export function buildTagTree(bookmarks: Bookmark[]): TagNode[] {
+  const counts = new Map<string, number>();
+  for (const bookmark of bookmarks) {
+    for (const path of new Set(bookmark.tags.flatMap(tagAncestry))) {
+      counts.set(path, (counts.get(path) || 0) + 1);
+    }
+  }
+
+  const nodes = new Map<string, TagNode>();
+  const roots: TagNode[] = [];
+  // Parents are created before their children
+  const depth = (path: string) => path.split(TAG_SEPARATOR).length;
+  for (const path of Array.from(counts.keys()).sort((a, b) => depth(a) - depth(b))) {
+    const separatorIndex = path.lastIndexOf(TAG_SEPARATOR);
+    const node: TagNode = {
+      path,
+      name: path.slice(separatorIndex + 1),
+      count: counts.get(path) || 0,
+      children: [],
+    };
+    nodes.set(path, node);
+    const parent = separatorIndex >= 0 ? nodes.get(path.slice(0, separatorIndex)) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  const byName = (a: TagNode, b: TagNode) => a.name.localeCompare(b.name);
+  const sortLevel = (level: TagNode[]) => {
+    level.sort(byName);
+    level.forEach(node => sortLevel(node.children));
+  };
+  sortLevel(roots);
+  return roots;
+}
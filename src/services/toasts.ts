@@ -0,0 +1,55 @@
+export type ToastType = 'success' | 'error' | 'info';
+
+export interface Toast {
+  id: number;
+  type: ToastType;
+  message: string;
+  action?: { label: string; onClick: () => void };
+}
+
+const DISMISS_AFTER: Record<ToastType, number> = {
+  success: 5000,
+  info: 5000,
+  error: 8000,
+};
+
+// Keeps the screen from filling up when many things fail at once
+const MAX_TOASTS = 4;
+
+let current: Toast[] = [];
+let nextId = 1;
+const listeners = new Set<() => void>();
+
+function setToasts(next: Toast[]) {
+  current = next;
+  listeners.forEach(listener => listener());
+}
+
+// A module-level store so hooks and services can report outcomes without threading a
+// callback through every component; `useToasts` renders it.
+export const toasts = {
+  getAll: () => current,
+
+  subscribe: (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  show: (toast: Omit<Toast, 'id'>) => {
+    const id = nextId++;
+    setToasts([...current, { ...toast, id }].slice(-MAX_TOASTS));
+    window.setTimeout(() => toasts.dismiss(id), DISMISS_AFTER[toast.type]);
+    return id;
+  },
+
+  dismiss: (id: number) => {
+    if (current.some(toast => toast.id === id)) {
+      setToasts(current.filter(toast => toast.id !== id));
+    }
+  },
+
+  error: (err: unknown, fallback: string) =>
+    toasts.show({ type: 'error', message: err instanceof Error ? err.message : fallback }),
+};
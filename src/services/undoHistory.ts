@@ -0,0 +1,105 @@
+import { toasts } from './toasts';
+
+// undo and redo resolve to false when the request behind them failed, in which case the
+// command stays where it was so it can be tried again
+export interface UndoableCommand {
+  label: string;
+  undo: () => Promise<boolean>;
+  redo: () => Promise<boolean>;
+}
+
+export interface UndoHistorySnapshot {
+  undoLabel: string | null;
+  redoLabel: string | null;
+  isRunning: boolean;
+}
+
+const MAX_HISTORY = 50;
+
+let past: UndoableCommand[] = [];
+let future: UndoableCommand[] = [];
+let snapshot: UndoHistorySnapshot = { undoLabel: null, redoLabel: null, isRunning: false };
+const listeners = new Set<() => void>();
+
+function update(changes: {
+  past?: UndoableCommand[];
+  future?: UndoableCommand[];
+  isRunning?: boolean;
+}) {
+  past = changes.past ?? past;
+  future = changes.future ?? future;
+  snapshot = {
+    undoLabel: past[past.length - 1]?.label ?? null,
+    redoLabel: future[future.length - 1]?.label ?? null,
+    isRunning: changes.isRunning ?? snapshot.isRunning,
+  };
+  listeners.forEach(listener => listener());
+}
+
+async function step(direction: 'undo' | 'redo', expected?: UndoableCommand) {
+  const from = direction === 'undo' ? past : future;
+  const command = from[from.length - 1];
+  if (!command || snapshot.isRunning) return;
+  // An Undo button on an older toast must not undo something newer instead
+  if (expected && command !== expected) {
+    toasts.show({ type: 'info', message: 'Newer changes have to be undone first' });
+    return;
+  }
+
+  update({ isRunning: true });
+  let succeeded = false;
+  try {
+    succeeded = await command[direction]();
+  } catch (err) {
+    console.error(`Failed to ${direction} "${command.label}":`, err);
+  }
+
+  if (!succeeded) {
+    update({ isRunning: false });
+    toasts.show({ type: 'error', message: `Could not ${direction} "${command.label}"` });
+    return;
+  }
+
+  if (direction === 'undo') {
+    update({ past: past.slice(0, -1), future: [...future, command], isRunning: false });
+    toasts.show({
+      type: 'info',
+      message: `Undone: ${command.label}`,
+      action: { label: 'Redo', onClick: () => undoHistory.redo(command) },
+    });
+  } else {
+    update({ past: [...past, command], future: future.slice(0, -1), isRunning: false });
+    toasts.show({
+      type: 'info',
+      message: `Redone: ${command.label}`,
+      action: { label: 'Undo', onClick: () => undoHistory.undo(command) },
+    });
+  }
+}
+
+export const undoHistory = {
+  getSnapshot: () => snapshot,
+
+  subscribe: (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  // Records a change that has just been made and confirms it with an "Undo" toast
+  record: (command: UndoableCommand, message: string) => {
+    update({ past: [...past, command].slice(-MAX_HISTORY), future: [] });
+    toasts.show({
+      type: 'success',
+      message,
+      action: { label: 'Undo', onClick: () => undoHistory.undo(command) },
+    });
+  },
+
+  // The commands refer to items on one server, so they are dropped when switching profiles
+  clear: () => update({ past: [], future: [] }),
+
+  undo: (expected?: UndoableCommand) => step('undo', expected),
+  redo: (expected?: UndoableCommand) => step('redo', expected),
+};
@@ -17,15 +17,84 @@ export interface Folder {
   icon?: string;
 }
 
+// The outcome of the last link check of a bookmark
+export interface LinkCheck {
+  // The URL that was checked; the result no longer applies once the bookmark's URL changes
+  url: string;
+  // The status of the final response, or 0 when the site could not be reached
+  status: number;
+  // Where redirects led, when they led somewhere else
+  finalUrl: string | null;
+  checkedAt: string;
+  error?: string;
+}
+
+// What happens to a folder's bookmarks and subfolders when it is deleted
+export type FolderDeleteStrategy = 'cascade' | 'moveToParent' | 'unfile';
+
+export type SortOrder = 'dateNewest' | 'dateOldest' | 'title' | 'domain' | 'favorites';
+
 export interface AppConfig {
   darkMode: boolean;
   showSidebar: boolean;
   viewMode: 'grid' | 'list';
+  sortOrder: SortOrder;
   flattenSubfolders: boolean;
+  profiles: ApiProfile[];
+  activeProfileId: string;
+  // Service that reports the HTTP status of a link; empty when link checking is not set up
+  linkCheckUrl: string;
+  tagNormalization: TagNormalization;
+  // Keep smart folders on the API as well, so they follow the account to other devices
+  syncSavedSearches: boolean;
+  shortcuts: Shortcuts;
+}
+
+export type ShortcutAction =
+  | 'focusSearch'
+  | 'next'
+  | 'previous'
+  | 'open'
+  | 'edit'
+  | 'favorite'
+  | 'newBookmark'
+  | 'goFavorites'
+  | 'showHelp';
+
+// The key bindings of each action, such as `j` or `g f`
+export type Shortcuts = Record<ShortcutAction, string[]>;
+
+// How tags are tidied up when a bookmark is saved from the editor
+export interface TagNormalization {
+  // Remove spaces around the tag and around the `/` of nested tags
+  trim: boolean;
+  lowercase: boolean;
+  // Tags replaced by another one, e.g. `reactjs` by `react`, keyed in lowercase
+  synonyms: Record<string, string>;
+}
+
+// Where a profile keeps its bookmarks: on a bookmarks API, or only in this browser
+export type StorageKind = 'api' | 'local';
+
+// A bookmarks API to connect to, e.g. staging, production or a personal account
+export interface ApiProfile {
+  id: string;
+  label: string;
+  // Missing on profiles saved before browser-only profiles existed, which all use the API
+  storage?: StorageKind;
+  baseUrl: string;
   apiKey: string;
+  color: string;
 }
 
+// 'unverified' covers keys still being checked and keys the API could not be asked about;
+// 'local' is used for browser-only profiles, which need no key
+export type AuthStatus = 'none' | 'unverified' | 'valid' | 'readOnly' | 'invalid' | 'local';
+
 export interface AuthState {
+  status: AuthStatus;
+  // Whether changes can be made: the key is valid, or has not been verified yet
   isAuthenticated: boolean;
   apiKey: string;
+  isVerifying: boolean;
 }
@@ -0,0 +1,23 @@
+import {
+  createSearchIndex,
+  SearchWorkerRequest,
+  SearchWorkerResponse,
+} from '../services/searchIndex';
+
+const index = createSearchIndex();
+
+self.onmessage = (event: MessageEvent<SearchWorkerRequest>) => {
+  const message = event.data;
+
+  if (message.type === 'update') {
+    message.removals.forEach(index.remove);
+    message.upserts.forEach(index.upsert);
+    return;
+  }
+
+  const response: SearchWorkerResponse = {
+    requestId: message.requestId,
+    result: index.search(message.terms),
+  };
+  self.postMessage(response);
+};